@@ -1,68 +1,161 @@
 import common from '@ohos.app.ability.common';
 import { BusinessError } from '@kit.BasicServicesKit';
+import { hilog } from '@kit.PerformanceAnalysisKit';
+import { formatConfigIssue, validateConfig, type ConfigIssue } from './configSchema';
+import { ConfigOverrideStore } from './configOverrideStore';
+import { SECRET_LABELS, type SecretId, type SecretReader, type SecretValues } from './secretStore';
+import { decodeUtf8 } from './utf8';
 
+const DOMAIN = 0x0000;
+const TAG = 'Config';
+
+/**
+ * 大模型提供方：openai 为通用OpenAI兼容服务，dashscope 支持联网搜索，
+ * ollama / llamacpp 为本地模型服务，scripted 按预设内容回复（用于测试）
+ */
+export type LlmProviderId = 'openai' | 'dashscope' | 'ollama' | 'llamacpp' | 'scripted';
+
+/**
+ * HTTP录制/回放模式，见 httpFixtures.ts
+ */
+export type HttpFixtureMode = 'off' | 'record' | 'replay';
+
+/**
+ * 应用配置，密钥不在其中，见 secretStore.ts
+ */
 export interface AppConfig {
-  amapKey?: string;
   amapBaseUrl?: string;
-  llmApiKey?: string;
+  llmProvider?: LlmProviderId;
   llmBaseUrl?: string;
   llmModel?: string;
   llmSystemPrompt?: string;
   llmEnableSearch?: boolean;
+  llmStream?: boolean;
+  llmContextTokens?: number;
+  llmScriptedReplies?: string[];
   defaultCity?: string;
   networkTimeout?: number;
+  httpRetries?: number;
+  amapDeadline?: number;
+  poiSearchLimit?: number;
+  llmDeadline?: number;
+  httpFixtureMode?: HttpFixtureMode;
+  httpFixtureName?: string;
   mockMode?: boolean;
 }
 
+/**
+ * 生效的配置：默认值 < config.json < 设备端覆盖项（设置页修改），无效的配置项不生效
+ */
 export interface ConfigResult {
   config: AppConfig;
-  source: 'file' | 'fallback';
+  source: 'file' | 'fallback'; // fallback：config.json 缺失或无法解析，使用默认配置
   message?: string;
+  issues: ConfigIssue[];
+  baseConfig: AppConfig; // 默认值与 config.json 合并后的配置，不含覆盖项
+  overrides: AppConfig; // 生效的覆盖项
+  secrets: SecretValues; // config.json 中预置的密钥，由调用方导入密钥存储
 }
 
 const DEFAULT_CONFIG: AppConfig = {
   amapBaseUrl: 'https://restapi.amap.com/v3',
-  llmBaseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
-  llmModel: 'qwen-plus',
+  llmProvider: 'dashscope',
   llmSystemPrompt: '你是一个本地生活与旅行路线推荐助手，请结合给定的POI列表给出简洁、可执行的吃喝玩乐方案，并给出推荐理由与行程顺序。',
+  llmStream: true,
+  llmContextTokens: 16000,
   defaultCity: '北京',
   networkTimeout: 12000,
-  mockMode: true,
+  httpRetries: 2,
+  amapDeadline: 20000,
+  poiSearchLimit: 50,
+  llmDeadline: 180000,
+  mockMode: false,
 };
 
-function toUtf8String(data: Uint8Array): string {
-  // 手动转换Uint8Array到字符串
-  let result = '';
-  for (let i = 0; i < data.length; i++) {
-    result += String.fromCharCode(data[i]);
+function errorMessage(error: unknown): string {
+  const err = error as BusinessError | Error;
+  return err?.message ?? JSON.stringify(err);
+}
+
+/**
+ * 合并各层配置
+ * @param fileText config.json 的内容，读取失败时为null
+ * @param rawOverrides 设备端保存的覆盖项（未经校验）
+ * @param fileError config.json 读取失败的原因
+ */
+export function resolveConfig(fileText: string | null, rawOverrides: unknown, fileError?: string): ConfigResult {
+  const issues: ConfigIssue[] = [];
+  let baseConfig: AppConfig = { ...DEFAULT_CONFIG };
+  let source: 'file' | 'fallback' = 'fallback';
+  let message = fileError;
+  let secrets: SecretValues = {};
+
+  if (fileText !== null) {
+    try {
+      const validated = validateConfig(JSON.parse(fileText), 'file');
+      issues.push(...validated.issues);
+      baseConfig = { ...DEFAULT_CONFIG, ...validated.config };
+      secrets = validated.secrets;
+      source = 'file';
+    } catch (error) {
+      message = `config.json 解析失败: ${errorMessage(error)}`;
+    }
   }
-  return result;
+
+  const overrides = validateConfig(rawOverrides, 'override');
+  issues.push(...overrides.issues);
+  if (source === 'file' && issues.length > 0) {
+    message = issues.map(formatConfigIssue).join('；');
+  }
+  return {
+    config: { ...baseConfig, ...overrides.config },
+    source,
+    message,
+    issues,
+    baseConfig,
+    overrides: overrides.config,
+    secrets,
+  };
 }
 
 export async function loadConfig(context: common.UIAbilityContext): Promise<ConfigResult> {
+  let fileText: string | null = null;
+  let fileError: string | undefined;
   try {
     const byteArray = await context.resourceManager.getRawFileContent('config.json');
-    const text = toUtf8String(byteArray);
-    const parsed = JSON.parse(text);
-    const merged: AppConfig = { ...DEFAULT_CONFIG, ...parsed, mockMode: false };
-    return { config: merged, source: 'file' };
+    fileText = decodeUtf8(byteArray);
   } catch (error) {
-    const err = error as BusinessError | Error;
-    const message = err?.message ?? JSON.stringify(err);
-    return {
-      config: { ...DEFAULT_CONFIG, mockMode: true },
-      source: 'fallback',
-      message,
-    };
+    fileError = errorMessage(error);
   }
-}
 
-export function missingCriticalKeys(config: AppConfig): string | undefined {
-  if (!config.amapKey) {
-    return '缺少高德地图密钥（amapKey）';
-  }
-  if (!config.llmApiKey) {
-    return '缺少大模型密钥（llmApiKey）';
+  let overrides: unknown = {};
+  try {
+    overrides = await new ConfigOverrideStore(context).load();
+  } catch (error) {
+    hilog.warn(DOMAIN, TAG, '读取设置失败: %{public}s', errorMessage(error));
   }
-  return undefined;
+
+  const result = resolveConfig(fileText, overrides, fileError);
+  result.issues.forEach(issue => hilog.warn(DOMAIN, TAG, '%{public}s', formatConfigIssue(issue)));
+  return result;
+}
+
+/**
+ * 当前配置下必须填写的密钥
+ */
+export function requiredSecrets(config: AppConfig): SecretId[] {
+  return llmRequiresApiKey(config) ? ['amapKey', 'llmApiKey'] : ['amapKey'];
+}
+
+export function missingCriticalKeys(config: AppConfig, secrets: SecretReader): string | undefined {
+  const missing = requiredSecrets(config).find(id => !secrets.getSecret(id));
+  return missing ? `缺少${SECRET_LABELS[missing]}（${missing}）` : undefined;
+}
+
+/**
+ * 本地模型服务和脚本回复不需要密钥
+ */
+export function llmRequiresApiKey(config: AppConfig): boolean {
+  const provider = config.llmProvider ?? 'dashscope';
+  return provider === 'openai' || provider === 'dashscope';
 }
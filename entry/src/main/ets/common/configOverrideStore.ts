@@ -0,0 +1,53 @@
+import preferences from '@ohos.data.preferences';
+import common from '@ohos.app.ability.common';
+import type { AppConfig } from './config';
+import { LazyStore } from './lazyStore';
+
+const STORE_NAME = 'config_overrides';
+const OVERRIDES_KEY = 'overrides';
+
+/**
+ * 设备端的配置覆盖项（设置页修改的配置），保存为一份JSON，读取时由 loadConfig 校验
+ */
+export class ConfigOverrideStore {
+  private context: common.Context;
+  private store: LazyStore<preferences.Preferences> = new LazyStore(() => this.openStore());
+
+  constructor(context: common.Context) {
+    this.context = context;
+  }
+
+  /**
+   * @returns 未经校验的覆盖项，没有保存过时为空对象
+   */
+  async load(): Promise<unknown> {
+    const store = await this.store.get();
+    const text = await store.get(OVERRIDES_KEY, '') as string;
+    return text ? JSON.parse(text) : {};
+  }
+
+  async save(overrides: AppConfig): Promise<void> {
+    const store = await this.store.get();
+    await store.put(OVERRIDES_KEY, JSON.stringify(overrides));
+    await store.flush();
+  }
+
+  /**
+   * 修改部分覆盖项，其余覆盖项保持不变
+   */
+  async update(changes: AppConfig): Promise<void> {
+    const current = await this.load();
+    const base = typeof current === 'object' && current !== null && !Array.isArray(current) ? current : {};
+    await this.save({ ...(base as AppConfig), ...changes });
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.store.get();
+    await store.delete(OVERRIDES_KEY);
+    await store.flush();
+  }
+
+  private openStore(): Promise<preferences.Preferences> {
+    return preferences.getPreferences(this.context, STORE_NAME);
+  }
+}
@@ -0,0 +1,215 @@
+import type { AppConfig } from './config';
+import { isSecretId, validateSecret, SECRET_LABELS, type SecretValues } from './secretStore';
+
+export type ConfigFieldKind = 'string' | 'url' | 'model' | 'integer' | 'boolean' | 'enum' | 'stringList';
+
+/**
+ * 单个配置项的定义，设置页按此生成编辑项
+ */
+export interface ConfigField {
+  key: keyof AppConfig;
+  label: string;
+  kind: ConfigFieldKind;
+  min?: number; // integer 的取值范围
+  max?: number;
+  options?: string[]; // enum 的可选值
+  overridable?: boolean; // 是否可在设置页覆盖
+}
+
+/**
+ * 配置校验问题：无效的配置项不生效，使用下一层（默认值或 config.json）的值
+ */
+export interface ConfigIssue {
+  key: string;
+  source: 'file' | 'override';
+  message: string;
+}
+
+export interface ValidatedConfig {
+  config: AppConfig;
+  issues: ConfigIssue[];
+  secrets: SecretValues; // config.json 中的密钥（仅用于一次性导入密钥存储）
+}
+
+export const CONFIG_FIELDS: ConfigField[] = [
+  { key: 'amapBaseUrl', label: '高德接口地址', kind: 'url', overridable: true },
+  {
+    key: 'llmProvider',
+    label: '大模型提供方',
+    kind: 'enum',
+    options: ['openai', 'dashscope', 'ollama', 'llamacpp', 'scripted'],
+    overridable: true,
+  },
+  { key: 'llmBaseUrl', label: '大模型接口地址', kind: 'url', overridable: true },
+  { key: 'llmModel', label: '模型名称', kind: 'model', overridable: true },
+  { key: 'llmSystemPrompt', label: '系统提示词', kind: 'string' },
+  { key: 'llmEnableSearch', label: '联网搜索', kind: 'boolean', overridable: true },
+  { key: 'llmStream', label: '流式输出', kind: 'boolean', overridable: true },
+  { key: 'llmContextTokens', label: '上下文长度（token）', kind: 'integer', min: 1000, max: 1000000 },
+  { key: 'llmScriptedReplies', label: '预设回复', kind: 'stringList' },
+  { key: 'defaultCity', label: '默认城市', kind: 'string', overridable: true },
+  { key: 'networkTimeout', label: '单次请求超时（毫秒）', kind: 'integer', min: 1000, max: 120000, overridable: true },
+  { key: 'httpRetries', label: '失败重试次数', kind: 'integer', min: 0, max: 5, overridable: true },
+  { key: 'amapDeadline', label: '高德请求总时限（毫秒）', kind: 'integer', min: 1000, max: 120000, overridable: true },
+  { key: 'poiSearchLimit', label: 'POI搜索数量上限', kind: 'integer', min: 1, max: 200 },
+  { key: 'llmDeadline', label: '大模型请求总时限（毫秒）', kind: 'integer', min: 10000, max: 600000, overridable: true },
+  { key: 'httpFixtureMode', label: 'HTTP录制/回放', kind: 'enum', options: ['off', 'record', 'replay'] },
+  { key: 'httpFixtureName', label: '录制文件名', kind: 'string' },
+  { key: 'mockMode', label: 'Mock模式', kind: 'boolean', overridable: true },
+];
+
+// 模型名称：字母数字开头，可含 . _ - : /，如 qwen-plus、llama3.1:8b、Qwen/Qwen2.5-7B-Instruct
+const MODEL_PATTERN = /^[A-Za-z0-9][\w.:\/-]{0,127}$/;
+
+export function findConfigField(key: string): ConfigField | undefined {
+  return CONFIG_FIELDS.find(field => field.key === key);
+}
+
+function validateUrl(value: string): string | undefined {
+  const match = value.match(/^(https?):\/\/([^\/?#\s:]+)(:\d{1,5})?([\/?#]\S*)?$/);
+  return match ? undefined : '需为 http:// 或 https:// 开头的完整地址';
+}
+
+/**
+ * 校验单个配置项
+ * @returns 错误描述，有效时返回undefined
+ */
+export function validateConfigValue(field: ConfigField, value: unknown): string | undefined {
+  switch (field.kind) {
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : '需为 true 或 false';
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return '需为整数';
+      }
+      if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+        return `需在${field.min}~${field.max}之间`;
+      }
+      return undefined;
+    case 'stringList':
+      return Array.isArray(value) && value.every(item => typeof item === 'string') ? undefined : '需为字符串数组';
+    default:
+      break;
+  }
+  if (typeof value !== 'string') {
+    return '需为字符串';
+  }
+  const text = value.trim();
+  if (!text) {
+    return '不能为空';
+  }
+  switch (field.kind) {
+    case 'url':
+      return validateUrl(text);
+    case 'model':
+      return MODEL_PATTERN.test(text) ? undefined : '模型名称格式不正确';
+    case 'enum':
+      return field.options?.includes(text) ? undefined : `需为 ${(field.options ?? []).join('/')} 之一`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 校验一层配置（config.json 或设备端覆盖项），丢弃无效和未知的配置项
+ * 覆盖项只接受 overridable 的配置项；config.json 中的密钥单独取出，提示改为在应用内填写
+ */
+export function validateConfig(raw: unknown, source: 'file' | 'override'): ValidatedConfig {
+  const config: Record<string, unknown> = {};
+  const issues: ConfigIssue[] = [];
+  const secrets: SecretValues = {};
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    issues.push({ key: '', source, message: '配置需为JSON对象' });
+    return { config: config as AppConfig, issues, secrets };
+  }
+  Object.entries(raw as Record<string, unknown>).forEach(([key, value]) => {
+    if (isSecretId(key)) {
+      if (source === 'override') {
+        issues.push({ key, source, message: '不支持在设置中修改' });
+        return;
+      }
+      const error = typeof value === 'string' ? validateSecret(value) : '需为字符串';
+      if (error) {
+        issues.push({ key, source, message: `${error}，请在应用内填写密钥` });
+        return;
+      }
+      secrets[key] = (value as string).trim();
+      issues.push({ key, source, message: '密钥会随安装包分发，已导入本机加密存储，请从 config.json 中删除' });
+      return;
+    }
+    const field = findConfigField(key);
+    if (!field) {
+      issues.push({ key, source, message: '未知的配置项' });
+      return;
+    }
+    if (source === 'override' && !field.overridable) {
+      issues.push({ key, source, message: '不支持在设置中修改' });
+      return;
+    }
+    const error = validateConfigValue(field, value);
+    if (error) {
+      issues.push({ key, source, message: error });
+      return;
+    }
+    config[key] = typeof value === 'string' && field.kind !== 'string' ? value.trim() : value;
+  });
+  return { config: config as AppConfig, issues, secrets };
+}
+
+/**
+ * 设置页中一个配置项的输入
+ */
+export interface ConfigInput {
+  key: keyof AppConfig;
+  text: string; // 空文本表示不覆盖
+}
+
+function parseConfigInput(field: ConfigField, text: string): unknown {
+  const value = text.trim();
+  if (!value) {
+    return undefined;
+  }
+  switch (field.kind) {
+    case 'integer':
+      return /^-?\d+$/.test(value) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * 把设置页的输入转换为覆盖项并校验
+ */
+export function parseConfigInputs(inputs: ConfigInput[]): ValidatedConfig {
+  const raw: Record<string, unknown> = {};
+  inputs.forEach(input => {
+    const field = findConfigField(input.key);
+    const value = field ? parseConfigInput(field, input.text) : undefined;
+    if (value !== undefined) {
+      raw[input.key] = value;
+    }
+  });
+  return validateConfig(raw, 'override');
+}
+
+/**
+ * 配置项的显示文本，未设置时为空字符串
+ */
+export function formatConfigValue(config: AppConfig, field: ConfigField): string {
+  const value = (config as Record<string, unknown>)[field.key];
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return `${value.length}条`;
+  }
+  return String(value);
+}
+
+export function formatConfigIssue(issue: ConfigIssue): string {
+  const label = isSecretId(issue.key) ? SECRET_LABELS[issue.key] : findConfigField(issue.key)?.label;
+  const name = issue.key ? `${issue.key}${label ? `（${label}）` : ''}` : '';
+  return `${issue.source === 'file' ? 'config.json' : '设置'} ${name}${name ? '：' : ''}${issue.message}`;
+}
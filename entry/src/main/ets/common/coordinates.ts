@@ -0,0 +1,62 @@
+// WGS-84 与 GCJ-02 互转使用的克拉索夫斯基椭球参数
+const EARTH_AXIS = 6378245.0;
+const EARTH_EE = 0.00669342162296594323;
+
+function outOfChina(lng: number, lat: number): boolean {
+  return lng < 72.004 || lng > 137.8347 || lat < 0.8293 || lat > 55.8271;
+}
+
+function transformLat(x: number, y: number): number {
+  let ret = -100.0 + 2.0 * x + 3.0 * y + 0.2 * y * y + 0.1 * x * y + 0.2 * Math.sqrt(Math.abs(x));
+  ret += (20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0 / 3.0;
+  ret += (20.0 * Math.sin(y * Math.PI) + 40.0 * Math.sin(y / 3.0 * Math.PI)) * 2.0 / 3.0;
+  ret += (160.0 * Math.sin(y / 12.0 * Math.PI) + 320 * Math.sin(y * Math.PI / 30.0)) * 2.0 / 3.0;
+  return ret;
+}
+
+function transformLng(x: number, y: number): number {
+  let ret = 300.0 + x + 2.0 * y + 0.1 * x * x + 0.1 * x * y + 0.1 * Math.sqrt(Math.abs(x));
+  ret += (20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0 / 3.0;
+  ret += (20.0 * Math.sin(x * Math.PI) + 40.0 * Math.sin(x / 3.0 * Math.PI)) * 2.0 / 3.0;
+  ret += (150.0 * Math.sin(x / 12.0 * Math.PI) + 300.0 * Math.sin(x / 30.0 * Math.PI)) * 2.0 / 3.0;
+  return ret;
+}
+
+/**
+ * 在WGS-84坐标处GCJ-02的偏移量 [经度偏移, 纬度偏移]
+ */
+function gcj02Offset(lng: number, lat: number): [number, number] {
+  let dLat = transformLat(lng - 105.0, lat - 35.0);
+  let dLng = transformLng(lng - 105.0, lat - 35.0);
+  const radLat = lat / 180.0 * Math.PI;
+  let magic = Math.sin(radLat);
+  magic = 1 - EARTH_EE * magic * magic;
+  const sqrtMagic = Math.sqrt(magic);
+  dLat = (dLat * 180.0) / ((EARTH_AXIS * (1 - EARTH_EE)) / (magic * sqrtMagic) * Math.PI);
+  dLng = (dLng * 180.0) / (EARTH_AXIS / sqrtMagic * Math.cos(radLat) * Math.PI);
+  return [dLng, dLat];
+}
+
+/**
+ * 设备定位为WGS-84坐标，高德接口使用GCJ-02坐标，国内直接使用会偏移数百米
+ * @returns 高德坐标，格式为"经度,纬度"
+ */
+export function wgs84ToGcj02(lng: number, lat: number): string {
+  if (outOfChina(lng, lat)) {
+    return `${lng.toFixed(6)},${lat.toFixed(6)}`;
+  }
+  const [dLng, dLat] = gcj02Offset(lng, lat);
+  return `${(lng + dLng).toFixed(6)},${(lat + dLat).toFixed(6)}`;
+}
+
+/**
+ * 高德坐标转回WGS-84（导出到日历、KML/GPX等通用格式时使用），按偏移量近似反算，误差在米级
+ * @returns WGS-84坐标，格式为"经度,纬度"
+ */
+export function gcj02ToWgs84(lng: number, lat: number): string {
+  if (outOfChina(lng, lat)) {
+    return `${lng.toFixed(6)},${lat.toFixed(6)}`;
+  }
+  const [dLng, dLat] = gcj02Offset(lng, lat);
+  return `${(lng - dLng).toFixed(6)},${(lat - dLat).toFixed(6)}`;
+}
@@ -0,0 +1,36 @@
+import abilityAccessCtrl, { type Permissions } from '@ohos.abilityAccessCtrl';
+import geoLocationManager from '@ohos.geoLocationManager';
+import common from '@ohos.app.ability.common';
+import { hilog } from '@kit.PerformanceAnalysisKit';
+import { wgs84ToGcj02 } from './coordinates';
+
+const DOMAIN = 0x0000;
+const TAG = 'DeviceLocation';
+
+const LOCATION_PERMISSIONS: Permissions[] = ['ohos.permission.APPROXIMATELY_LOCATION', 'ohos.permission.LOCATION'];
+const LOCATION_TIMEOUT = 10000;
+
+/**
+ * 获取设备当前位置（首次调用时申请定位权限），用户拒绝授权或定位失败时返回null
+ * @returns 高德坐标，格式为"经度,纬度"
+ */
+export async function getCurrentLocation(context: common.UIAbilityContext): Promise<string | null> {
+  try {
+    const atManager = abilityAccessCtrl.createAtManager();
+    const grant = await atManager.requestPermissionsFromUser(context, LOCATION_PERMISSIONS);
+    if (!grant.authResults.some((result: number) => result === abilityAccessCtrl.GrantStatus.PERMISSION_GRANTED)) {
+      hilog.warn(DOMAIN, TAG, '用户未授予定位权限');
+      return null;
+    }
+
+    const location = await geoLocationManager.getCurrentLocation({
+      priority: geoLocationManager.LocationRequestPriority.FIRST_FIX,
+      timeoutMs: LOCATION_TIMEOUT,
+    });
+    hilog.info(DOMAIN, TAG, '获取当前位置成功, accuracy: %{public}dm', location.accuracy);
+    return wgs84ToGcj02(location.longitude, location.latitude);
+  } catch (error) {
+    hilog.warn(DOMAIN, TAG, '获取当前位置失败: %{public}s', (error as Error).message ?? JSON.stringify(error));
+    return null;
+  }
+}
@@ -1,21 +1,130 @@
 import http from '@ohos.net.http';
 import { BusinessError } from '@kit.BasicServicesKit';
+import { hilog } from '@kit.PerformanceAnalysisKit';
+import { createUtf8Decoder, decodeUtf8 } from './utf8';
 
-export interface HttpError {
+const DOMAIN = 0x0000;
+const TAG = 'HttpClient';
+
+// 系统网络错误码：操作超时
+const NET_TIMEOUT_CODE = 2300028;
+
+export type HttpErrorKind =
+  | 'network' // 连接失败、连接/读取超时以外的网络异常
+  | 'timeout' // 连接/读取超时或超过调用截止时间
+  | 'status' // 服务端返回非2xx
+  | 'parse' // 响应不是合法JSON
+  | 'aborted' // 调用方取消
+  | 'handler' // 流式回调抛出异常
+  | 'fixture'; // 回放模式下没有匹配的录制数据
+
+/**
+ * 统一的HTTP错误
+ * code 为HTTP状态码或系统网络错误码，status 仅在服务端返回非2xx时存在
+ */
+export class HttpError extends Error {
+  kind: HttpErrorKind;
   code: number | string;
-  message: string;
+  status?: number;
+  retryAfter?: number; // 服务端要求的重试等待（毫秒），来自 Retry-After 响应头
+  body?: string; // 非2xx响应的原始响应体（截断），供调用方解析厂商错误码
+
+  constructor(kind: HttpErrorKind, message: string, code: number | string = -1, status?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.kind = kind;
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export function isHttpError(error: unknown): error is HttpError {
+  return error instanceof HttpError;
+}
+
+/**
+ * 取消信号，用法参照 AbortSignal
+ */
+export class HttpAbortSignal {
+  aborted: boolean = false;
+  reason?: HttpError;
+  private listeners: Array<(reason: HttpError) => void> = [];
+
+  /**
+   * 注册取消回调，已取消时立即回调
+   * @returns 注销函数
+   */
+  onAbort(listener: (reason: HttpError) => void): () => void {
+    if (this.aborted) {
+      listener(this.reason as HttpError);
+      return () => {};
+    }
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(item => item !== listener);
+    };
+  }
+
+  throwIfAborted(): void {
+    if (this.aborted) {
+      throw this.reason;
+    }
+  }
+
+  /**
+   * 触发取消，仅由 HttpAbortController 和本模块内部的截止时间调用
+   */
+  fire(reason: HttpError): void {
+    if (this.aborted) {
+      return;
+    }
+    this.aborted = true;
+    this.reason = reason;
+    const listeners = this.listeners;
+    this.listeners = [];
+    listeners.forEach(listener => listener(reason));
+  }
+}
+
+/**
+ * 取消控制器，用法参照 AbortController
+ */
+export class HttpAbortController {
+  readonly signal: HttpAbortSignal = new HttpAbortSignal();
+
+  abort(message: string = '请求已取消'): void {
+    this.signal.fire(new HttpError('aborted', message));
+  }
+}
+
+/**
+ * 重试策略：按指数退避并加入随机抖动
+ */
+export interface RetryPolicy {
+  retries: number; // 首次请求之外的最大重试次数
+  baseDelay: number; // 第一次重试前的基准等待（毫秒），之后每次翻倍
+  maxDelay: number; // 单次等待上限（毫秒）
 }
 
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelay: 500,
+  maxDelay: 5000,
+};
+
 export interface HttpResult<T> {
   data: T;
   statusCode: number;
   headers: Record<string, string>;
 }
 
-interface RequestOptions {
+export interface RequestOptions {
   params?: Record<string, string | number | undefined>;
   headers?: Record<string, string>;
-  timeout?: number;
+  timeout?: number; // 单次请求的连接/读取超时（毫秒）
+  deadline?: number; // 整个调用（含重试和退避等待）的时长上限（毫秒）
+  retry?: Partial<RetryPolicy> | false;
+  signal?: HttpAbortSignal;
 }
 
 function buildQuery(params?: Record<string, string | number | undefined>): string {
@@ -35,109 +144,497 @@ function parseBody(result: unknown): string {
   }
   if (result instanceof ArrayBuffer) {
     const uint8Array = new Uint8Array(result);
-    return uint8ArrayToString(uint8Array);
+    return decodeUtf8(uint8Array);
   }
   if (ArrayBuffer.isView(result)) {
-    return uint8ArrayToString(result as Uint8Array);
+    return decodeUtf8(result as Uint8Array);
   }
   return '';
 }
 
-function uint8ArrayToString(data: Uint8Array): string {
-  // 手动转换Uint8Array到字符串
-  let result = '';
-  for (let i = 0; i < data.length; i++) {
-    result += String.fromCharCode(data[i]);
+function readHeaders(header: unknown): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (header && typeof header === 'object') {
+    const headerObj = header as Record<string, unknown>;
+    for (const key in headerObj) {
+      if (typeof headerObj[key] === 'string') {
+        headers[key.toLowerCase()] = headerObj[key] as string;
+      }
+    }
   }
-  return result;
+  return headers;
 }
 
-function normalizeError(err: BusinessError | Error | unknown, fallback: string): HttpError {
+function toHttpError(err: BusinessError | Error | unknown, fallback: string): HttpError {
+  if (err instanceof HttpError) {
+    return err;
+  }
   if (err && typeof err === 'object' && 'code' in (err as Record<string, unknown>)) {
     const business = err as BusinessError;
-    return { code: business.code ?? -1, message: business.message ?? fallback };
+    const kind: HttpErrorKind = business.code === NET_TIMEOUT_CODE ? 'timeout' : 'network';
+    return new HttpError(kind, business.message ?? fallback, business.code ?? -1);
   }
   const e = err as Error;
-  return { code: -1, message: e?.message ?? fallback };
+  return new HttpError('network', e?.message ?? fallback);
 }
 
-export async function httpGet<T>(url: string, options: RequestOptions = {}): Promise<HttpResult<T>> {
-  const fullUrl = `${url}${buildQuery(options.params)}`;
-  const httpRequest = http.createHttp();
-  return new Promise<HttpResult<T>>((resolve, reject) => {
-    httpRequest.request(fullUrl, {
-      method: http.RequestMethod.GET,
-      header: options.headers ?? {},
-      connectTimeout: options.timeout ?? 10000,
-      readTimeout: options.timeout ?? 10000,
-    }, (err, data) => {
-      httpRequest.destroy();
-      if (err) {
-        reject(normalizeError(err, '网络请求失败'));
-        return;
-      }
+function statusError(statusCode: number, bodyText: string, headers: Record<string, string>): HttpError {
+  const error = new HttpError('status', extractErrorMessage(bodyText) || `HTTP ${statusCode}`, statusCode, statusCode);
+  error.body = bodyText.substring(0, 4096);
+  const retryAfter = Number(headers['retry-after']);
+  if (headers['retry-after'] && Number.isFinite(retryAfter) && retryAfter >= 0) {
+    error.retryAfter = retryAfter * 1000;
+  }
+  return error;
+}
+
+/**
+ * 429和5xx可以重试；网络错误和超时只重试幂等的GET请求
+ */
+function isRetryable(error: HttpError, idempotent: boolean): boolean {
+  if (error.kind === 'status') {
+    return error.status === 429 || (error.status ?? 0) >= 500;
+  }
+  return idempotent && (error.kind === 'network' || error.kind === 'timeout');
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number, retryAfter?: number): number {
+  if (retryAfter !== undefined) {
+    return Math.min(policy.maxDelay, retryAfter);
+  }
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  // 一半固定、一半随机，避免多个请求同时重试
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+function sleep(ms: number, signal: HttpAbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    let off: () => void = () => {};
+    const timer = setTimeout(() => {
+      off();
+      resolve();
+    }, ms);
+    off = signal.onAbort(reason => {
+      clearTimeout(timer);
+      reject(reason);
+    });
+  });
+}
+
+/**
+ * 在取消时立即以取消原因结束等待
+ */
+function abortable<T>(promise: Promise<T>, signal: HttpAbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const off = signal.onAbort(reason => reject(reason));
+    promise.then(value => {
+      off();
+      resolve(value);
+    }, (error: Error) => {
+      off();
+      reject(error);
+    });
+  });
+}
+
+/**
+ * 创建底层请求对象，取消时立即销毁以中断传输
+ */
+function openRequest(signal: HttpAbortSignal): { request: http.HttpRequest; release: () => void } {
+  const request = http.createHttp();
+  let released = false;
+  const release = () => {
+    if (!released) {
+      released = true;
+      request.destroy();
+    }
+  };
+  const off = signal.onAbort(() => release());
+  return {
+    request,
+    release: () => {
+      off();
+      release();
+    },
+  };
+}
+
+/**
+ * 按重试策略执行一次调用，调用方取消信号与截止时间合并为同一个取消范围
+ * @param idempotent 是否幂等，决定网络错误时能否重试
+ * @param canRetry 额外的重试条件（如流式请求已向调用方推送数据时不再重试）
+ */
+async function withRetry<T>(
+  label: string,
+  options: RequestOptions,
+  idempotent: boolean,
+  attempt: (signal: HttpAbortSignal) => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<T> {
+  const policy: RetryPolicy = options.retry === false
+    ? { ...DEFAULT_RETRY_POLICY, retries: 0 }
+    : { ...DEFAULT_RETRY_POLICY, ...(options.retry ?? {}) };
+
+  const signal = new HttpAbortSignal();
+  const offParent = options.signal ? options.signal.onAbort(reason => signal.fire(reason)) : () => {};
+  const deadline = options.deadline ?? 0;
+  const timer = deadline > 0
+    ? setTimeout(() => signal.fire(new HttpError('timeout', `请求超过${deadline}ms未完成`)), deadline)
+    : -1;
+
+  try {
+    for (let i = 0; ; i++) {
+      signal.throwIfAborted();
       try {
-        const bodyText = parseBody(data.result);
-        const parsed = bodyText ? JSON.parse(bodyText) as T : ({} as T);
-        const headers: Record<string, string> = {};
-        if (data.header && typeof data.header === 'object') {
-          const headerObj = data.header as Record<string, unknown>;
-          for (const key in headerObj) {
-            if (typeof headerObj[key] === 'string') {
-              headers[key] = headerObj[key] as string;
-            }
-          }
+        return await attempt(signal);
+      } catch (error) {
+        if (signal.aborted) {
+          throw signal.reason;
         }
-        resolve({
-          data: parsed,
-          statusCode: data.responseCode ?? 0,
-          headers: headers,
-        });
-      } catch (parseError) {
-        reject(normalizeError(parseError, '响应解析失败'));
+        const httpErr = toHttpError(error, '网络请求失败');
+        if (i >= policy.retries || !isRetryable(httpErr, idempotent) || !canRetry()) {
+          throw httpErr;
+        }
+        const delay = backoffDelay(policy, i, httpErr.retryAfter);
+        hilog.warn(DOMAIN, TAG, '%{public}s 请求失败: %{public}s, %{public}dms后进行第%{public}d次重试',
+          label, httpErr.message, delay, i + 1);
+        await sleep(delay, signal);
       }
-    });
-  });
+    }
+  } finally {
+    offParent();
+    clearTimeout(timer);
+  }
 }
 
-export async function httpPost<T>(url: string, body: unknown, options: RequestOptions = {}): Promise<HttpResult<T>> {
-  const httpRequest = http.createHttp();
-  return new Promise<HttpResult<T>>((resolve, reject) => {
-    httpRequest.request(url, {
-      method: http.RequestMethod.POST,
+/**
+ * 一次HTTP交互的请求描述，供录制/回放使用
+ */
+export interface HttpExchange {
+  method: 'GET' | 'POST';
+  url: string; // 不含查询参数
+  params?: Record<string, string | number | undefined>;
+  body?: string;
+  stream: boolean;
+}
+
+export interface RecordedResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * 请求拦截器：录制真实响应或回放已录制的响应
+ */
+export interface HttpInterceptor {
+  /**
+   * 返回录制的响应，返回undefined时发起真实请求
+   */
+  replay(exchange: HttpExchange): RecordedResponse | undefined;
+  record(exchange: HttpExchange, response: RecordedResponse): void;
+}
+
+let activeInterceptor: HttpInterceptor | null = null;
+
+/**
+ * 设置全局请求拦截器，传入null关闭录制/回放
+ */
+export function setHttpInterceptor(interceptor: HttpInterceptor | null): void {
+  activeInterceptor = interceptor;
+}
+
+async function fetchOnce(
+  exchange: HttpExchange,
+  options: RequestOptions,
+  signal: HttpAbortSignal
+): Promise<{ statusCode: number; bodyText: string; headers: Record<string, string> }> {
+  const { request, release } = openRequest(signal);
+  try {
+    const response = await abortable<http.HttpResponse>(request.request(`${exchange.url}${buildQuery(exchange.params)}`, {
+      method: exchange.method === 'GET' ? http.RequestMethod.GET : http.RequestMethod.POST,
       header: {
-        'Content-Type': 'application/json',
+        ...(exchange.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
         ...(options.headers ?? {}),
       },
-      extraData: JSON.stringify(body ?? {}),
+      extraData: exchange.body,
       connectTimeout: options.timeout ?? 10000,
       readTimeout: options.timeout ?? 10000,
-    }, (err, data) => {
-      httpRequest.destroy();
-      if (err) {
-        reject(normalizeError(err, '网络请求失败'));
-        return;
+    }), signal);
+    const statusCode = response.responseCode ?? 0;
+    const bodyText = parseBody(response.result);
+    activeInterceptor?.record(exchange, { status: statusCode, body: bodyText });
+    return { statusCode, bodyText, headers: readHeaders(response.header) };
+  } finally {
+    release();
+  }
+}
+
+async function sendOnce<T>(
+  exchange: HttpExchange,
+  options: RequestOptions,
+  signal: HttpAbortSignal
+): Promise<HttpResult<T>> {
+  const replayed = activeInterceptor?.replay(exchange);
+  const { statusCode, bodyText, headers } = replayed
+    ? { statusCode: replayed.status, bodyText: replayed.body, headers: {} as Record<string, string> }
+    : await fetchOnce(exchange, options, signal);
+  if (statusCode < 200 || statusCode >= 300) {
+    throw statusError(statusCode, bodyText, headers);
+  }
+  let parsed: T;
+  try {
+    parsed = bodyText ? JSON.parse(bodyText) as T : ({} as T);
+  } catch (parseError) {
+    throw new HttpError('parse', '响应解析失败', statusCode, statusCode);
+  }
+  return { data: parsed, statusCode, headers };
+}
+
+/**
+ * GET请求，网络错误、超时、429和5xx按策略重试
+ */
+export async function httpGet<T>(url: string, options: RequestOptions = {}): Promise<HttpResult<T>> {
+  const exchange: HttpExchange = { method: 'GET', url, params: options.params, stream: false };
+  return withRetry(`GET ${url}`, options, true, signal => sendOnce<T>(exchange, options, signal));
+}
+
+/**
+ * POST请求（JSON），仅在429和5xx时按策略重试
+ */
+export async function httpPost<T>(url: string, body: unknown, options: RequestOptions = {}): Promise<HttpResult<T>> {
+  const exchange: HttpExchange = { method: 'POST', url, body: JSON.stringify(body ?? {}), stream: false };
+  return withRetry(`POST ${url}`, options, false, signal => sendOnce<T>(exchange, options, signal));
+}
+
+/**
+ * Server-Sent Events 事件
+ */
+export interface SseEvent {
+  event?: string;
+  id?: string;
+  data: string;
+}
+
+/**
+ * 增量SSE解析器：按块喂入文本，返回已完整接收的事件
+ */
+export class SseParser {
+  private buffer: string = '';
+  private dataLines: string[] = [];
+  private eventName?: string;
+  private eventId?: string;
+
+  push(chunk: string): SseEvent[] {
+    this.buffer += chunk;
+    const events: SseEvent[] = [];
+    let index = this.buffer.search(/\r\n|\r|\n/);
+    while (index >= 0) {
+      // 块末尾的\r可能与下一块的\n组成一个换行，等待更多数据
+      if (this.buffer[index] === '\r' && index === this.buffer.length - 1) {
+        break;
       }
-      try {
-        const bodyText = parseBody(data.result);
-        const parsed = bodyText ? JSON.parse(bodyText) as T : ({} as T);
-        const headers: Record<string, string> = {};
-        if (data.header && typeof data.header === 'object') {
-          const headerObj = data.header as Record<string, unknown>;
-          for (const key in headerObj) {
-            if (typeof headerObj[key] === 'string') {
-              headers[key] = headerObj[key] as string;
-            }
-          }
+      const line = this.buffer.substring(0, index);
+      const separatorLength = this.buffer.startsWith('\r\n', index) ? 2 : 1;
+      this.buffer = this.buffer.substring(index + separatorLength);
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+      index = this.buffer.search(/\r\n|\r|\n/);
+    }
+    return events;
+  }
+
+  /**
+   * 流结束时调用，返回缓冲区中剩余的事件
+   */
+  flush(): SseEvent[] {
+    const events: SseEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer.replace(/\r$/, ''));
+      this.buffer = '';
+      if (event) {
+        events.push(event);
+      }
+    }
+    const last = this.dispatch();
+    if (last) {
+      events.push(last);
+    }
+    return events;
+  }
+
+  private processLine(line: string): SseEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line.startsWith(':')) {
+      return null;
+    }
+    const colon = line.indexOf(':');
+    const field = colon >= 0 ? line.substring(0, colon) : line;
+    let value = colon >= 0 ? line.substring(colon + 1) : '';
+    if (value.startsWith(' ')) {
+      value = value.substring(1);
+    }
+    if (field === 'data') {
+      this.dataLines.push(value);
+    } else if (field === 'event') {
+      this.eventName = value;
+    } else if (field === 'id') {
+      this.eventId = value;
+    }
+    return null;
+  }
+
+  private dispatch(): SseEvent | null {
+    if (this.dataLines.length === 0) {
+      this.eventName = undefined;
+      return null;
+    }
+    const event: SseEvent = {
+      event: this.eventName,
+      id: this.eventId,
+      data: this.dataLines.join('\n'),
+    };
+    this.dataLines = [];
+    this.eventName = undefined;
+    return event;
+  }
+}
+
+/**
+ * 以流式方式发送POST请求并按SSE协议解析响应
+ * 尚未向 onEvent 推送任何事件时，429和5xx按策略重试
+ * onEvent 抛出的异常会中断请求并作为错误返回
+ * @returns HTTP状态码
+ */
+export async function httpPostStream(
+  url: string,
+  body: unknown,
+  onEvent: (event: SseEvent) => void,
+  options: RequestOptions = {}
+): Promise<number> {
+  const exchange: HttpExchange = { method: 'POST', url, body: JSON.stringify(body ?? {}), stream: true };
+  let delivered = false;
+  return withRetry(`POST(stream) ${url}`, options, false, async (signal: HttpAbortSignal) => {
+    const parser = new SseParser();
+    // 回调中记录的异常，闭包内赋值，使用对象承载以避免类型收窄
+    const state: { rawText: string; error: HttpError | null; cancel: () => void } = {
+      rawText: '',
+      error: null,
+      cancel: () => {},
+    };
+
+    const emit = (events: SseEvent[]) => {
+      for (const event of events) {
+        if (state.error) {
+          return;
         }
-        resolve({
-          data: parsed,
-          statusCode: data.responseCode ?? 0,
-          headers: headers,
-        });
-      } catch (parseError) {
-        reject(normalizeError(parseError, '响应解析失败'));
+        try {
+          delivered = true;
+          onEvent(event);
+        } catch (error) {
+          state.error = new HttpError('handler', (error as Error)?.message ?? '流式数据处理失败');
+          state.cancel();
+        }
+      }
+    };
+
+    const finish = (statusCode: number): number => {
+      if (!state.error && (statusCode < 200 || statusCode >= 300)) {
+        state.error = statusError(statusCode, state.rawText, {});
+      }
+      if (!state.error) {
+        emit(parser.flush());
+      }
+      if (state.error) {
+        throw state.error;
       }
+      return statusCode;
+    };
+
+    const replayed = activeInterceptor?.replay(exchange);
+    if (replayed) {
+      state.rawText = replayed.body;
+      if (replayed.status >= 200 && replayed.status < 300) {
+        emit(parser.push(replayed.body));
+      }
+      return finish(replayed.status);
+    }
+
+    const { request, release } = openRequest(signal);
+    // 销毁请求不一定会结束等待中的 requestInStream，回调出错时直接结束等待
+    let rejectHandler: (error: HttpError) => void = () => {};
+    const handlerFailed = new Promise<number>((_resolve, reject) => {
+      rejectHandler = reject;
     });
-  });
+    state.cancel = () => {
+      release();
+      rejectHandler(state.error as HttpError);
+    };
+    const decoder = createUtf8Decoder();
+    // 录制时保留完整的响应文本
+    const recorded: string[] = [];
+    const recording = activeInterceptor !== null;
+
+    request.on('dataReceive', (data: ArrayBuffer) => {
+      const text = decoder.decodeToString(new Uint8Array(data), { stream: true });
+      if (recording) {
+        recorded.push(text);
+      }
+      // 保留开头的原始文本，用于非2xx响应时提取错误信息
+      if (state.rawText.length < 4096) {
+        state.rawText += text;
+      }
+      emit(parser.push(text));
+    });
+
+    try {
+      const statusCode = await abortable<number>(Promise.race([request.requestInStream(url, {
+        method: http.RequestMethod.POST,
+        header: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          ...(options.headers ?? {}),
+        },
+        extraData: exchange.body,
+        connectTimeout: options.timeout ?? 10000,
+        readTimeout: options.timeout ?? 10000,
+      }), handlerFailed]), signal);
+      // 回调中断的响应不完整，不录制
+      if (!state.error) {
+        activeInterceptor?.record(exchange, { status: statusCode, body: recorded.join('') });
+      }
+      return finish(statusCode);
+    } catch (err) {
+      throw state.error ?? err;
+    } finally {
+      request.off('dataReceive');
+      release();
+    }
+  }, () => !delivered);
+}
+
+function extractErrorMessage(text: string): string | undefined {
+  try {
+    const parsed = JSON.parse(text) as Record<string, unknown>;
+    if (typeof parsed.error === 'string') {
+      return parsed.error;
+    }
+    const error = parsed.error as Record<string, unknown> | undefined;
+    if (error && typeof error.message === 'string') {
+      return error.message;
+    }
+    if (typeof parsed.message === 'string') {
+      return parsed.message;
+    }
+  } catch (e) {
+    // 非JSON错误体
+  }
+  return undefined;
 }
@@ -0,0 +1,273 @@
+import common from '@ohos.app.ability.common';
+import fs from '@ohos.file.fs';
+import { hilog } from '@kit.PerformanceAnalysisKit';
+import {
+  HttpError,
+  setHttpInterceptor,
+  type HttpExchange,
+  type HttpInterceptor,
+  type RecordedResponse
+} from './httpClient';
+import type { AppConfig } from './config';
+import { SECRET_IDS, type SecretReader } from './secretStore';
+import { isSecretParam } from './tracing';
+import { hashText } from './textHash';
+import { decodeUtf8 } from './utf8';
+
+const DOMAIN = 0x0000;
+const TAG = 'HttpFixtures';
+
+const FIXTURE_DIR = 'fixtures';
+// 2：POST请求按规范化后的请求体匹配
+const CASSETTE_VERSION = 2;
+
+// 大模型请求中随日期、天气变化的内容，匹配前替换为占位符，使录制数据在其他日期也能回放
+const VOLATILE_PATTERNS: Array<{ pattern: RegExp; replacement: string }> = [
+  { pattern: /^天气：.*$/gm, replacement: '天气：*' },
+  { pattern: /\d{4}-\d{2}-\d{2}/g, replacement: '*' },
+];
+
+// 大模型对话请求体中参与匹配的字段
+interface ChatRequestBody {
+  model?: string;
+  stream?: boolean;
+  messages?: Array<{ role?: string; content?: string }>;
+}
+
+/**
+ * 一条录制的请求/响应
+ */
+export interface HttpFixture {
+  key: string;
+  method: 'GET' | 'POST';
+  path: string;
+  params?: Record<string, string>; // 已移除密钥参数
+  bodyHash?: string; // 规范化后请求体的哈希，见 normalizeRequestBody
+  stream: boolean;
+  status: number;
+  body: string; // 原始响应文本，流式响应为完整的SSE文本
+  recordedAt: string;
+}
+
+export interface FixtureCassette {
+  version: number;
+  fixtures: HttpFixture[];
+}
+
+/**
+ * 去掉协议和主机，只保留路径，使录制数据可以通过本地替身服务回放
+ */
+function urlPath(url: string): string {
+  const match = url.match(/^[a-z]+:\/\/[^/?#]+([^?#]*)/i);
+  const path = match ? match[1] : url.split('?')[0];
+  return path.replace(/\/+$/, '') || '/';
+}
+
+function publicParams(params?: Record<string, string | number | undefined>): Record<string, string> {
+  const result: Record<string, string> = {};
+  Object.keys(params ?? {}).sort().forEach(name => {
+    const value = params?.[name];
+    if (value !== undefined && value !== null && value !== '' && !isSecretParam(name)) {
+      result[name] = String(value);
+    }
+  });
+  return result;
+}
+
+/**
+ * POST请求体中参与匹配的内容
+ * 大模型对话请求只取模型、是否流式和各条消息，并去掉日期、天气等随时间变化的内容，温度等参数不参与匹配；
+ * 其他请求体原样使用
+ * tools/fixture-server.js 中有相同实现，修改时需同步
+ */
+export function normalizeRequestBody(body: string): string {
+  let parsed: ChatRequestBody | null = null;
+  try {
+    parsed = JSON.parse(body) as ChatRequestBody;
+  } catch (error) {
+    return body;
+  }
+  if (!parsed || !Array.isArray(parsed.messages)) {
+    return body;
+  }
+  const messages = parsed.messages.map(message => {
+    const content = VOLATILE_PATTERNS.reduce((text, item) => text.replace(item.pattern, item.replacement),
+      message.content ?? '');
+    return `${message.role ?? ''}:${content}`;
+  });
+  return [parsed.model ?? '', parsed.stream ? 'stream' : '', ...messages].join('\n');
+}
+
+/**
+ * 匹配键：GET 按路径和排序后的参数（不含密钥），POST 按路径和规范化后请求体的哈希
+ * tools/fixture-server.js 中有相同实现，修改时需同步
+ */
+export function fixtureKey(exchange: HttpExchange): string {
+  const path = urlPath(exchange.url);
+  if (exchange.method === 'GET') {
+    const params = publicParams(exchange.params);
+    const query = Object.keys(params).map(name => `${name}=${params[name]}`).join('&');
+    return `GET ${path}?${query}`;
+  }
+  return `POST ${path}#${hashText(normalizeRequestBody(exchange.body ?? ''))}`;
+}
+
+export interface FixtureInterceptorOptions {
+  secrets?: string[]; // 录制时从响应中抹掉的密钥
+  onChange?: (cassette: FixtureCassette) => void; // 录制新数据后回调，用于持久化
+}
+
+/**
+ * 录制/回放拦截器
+ * 回放模式下没有匹配数据时抛出 HttpError('fixture')，不会访问网络
+ */
+export class FixtureInterceptor implements HttpInterceptor {
+  private mode: 'record' | 'replay';
+  private fixtures: Map<string, HttpFixture> = new Map();
+  private secrets: string[];
+  private onChange?: (cassette: FixtureCassette) => void;
+
+  constructor(mode: 'record' | 'replay', cassette?: FixtureCassette, options: FixtureInterceptorOptions = {}) {
+    this.mode = mode;
+    this.secrets = (options.secrets ?? []).filter(secret => secret.length > 0);
+    this.onChange = options.onChange;
+    for (const fixture of cassette?.fixtures ?? []) {
+      this.fixtures.set(fixture.key, fixture);
+    }
+  }
+
+  replay(exchange: HttpExchange): RecordedResponse | undefined {
+    if (this.mode !== 'replay') {
+      return undefined;
+    }
+    const key = fixtureKey(exchange);
+    const fixture = this.fixtures.get(key);
+    if (!fixture) {
+      hilog.warn(DOMAIN, TAG, '回放未命中: %{public}s', key);
+      throw new HttpError('fixture', `回放数据中没有匹配的请求: ${key}`);
+    }
+    hilog.debug(DOMAIN, TAG, '回放命中: %{public}s', key);
+    return { status: fixture.status, body: fixture.body };
+  }
+
+  record(exchange: HttpExchange, response: RecordedResponse): void {
+    if (this.mode !== 'record') {
+      return;
+    }
+    const key = fixtureKey(exchange);
+    this.fixtures.set(key, {
+      key,
+      method: exchange.method,
+      path: urlPath(exchange.url),
+      params: exchange.method === 'GET' ? publicParams(exchange.params) : undefined,
+      bodyHash: exchange.method === 'POST' ? hashText(normalizeRequestBody(exchange.body ?? '')) : undefined,
+      stream: exchange.stream,
+      status: response.status,
+      body: this.redact(response.body),
+      recordedAt: new Date().toISOString(),
+    });
+    hilog.info(DOMAIN, TAG, '已录制: %{public}s, status: %{public}d', key, response.status);
+    this.onChange?.(this.toCassette());
+  }
+
+  toCassette(): FixtureCassette {
+    return { version: CASSETTE_VERSION, fixtures: Array.from(this.fixtures.values()) };
+  }
+
+  private redact(text: string): string {
+    let result = text;
+    for (const secret of this.secrets) {
+      result = result.split(secret).join('***');
+    }
+    return result;
+  }
+}
+
+function parseCassette(text: string): FixtureCassette | null {
+  const parsed = JSON.parse(text) as FixtureCassette;
+  if (!parsed || !Array.isArray(parsed.fixtures)) {
+    return null;
+  }
+  if (parsed.version !== CASSETTE_VERSION) {
+    hilog.warn(DOMAIN, TAG, '录制文件版本为%{public}d，当前为%{public}d，POST请求可能无法匹配，请重新录制',
+      parsed.version, CASSETTE_VERSION);
+  }
+  return parsed;
+}
+
+function readCassetteFile(path: string): FixtureCassette | null {
+  try {
+    if (!fs.accessSync(path)) {
+      return null;
+    }
+    return parseCassette(fs.readTextSync(path));
+  } catch (error) {
+    hilog.warn(DOMAIN, TAG, '读取录制文件失败: %{public}s, error: %{public}s', path, (error as Error).message);
+    return null;
+  }
+}
+
+function writeCassetteFile(path: string, cassette: FixtureCassette): void {
+  try {
+    const file = fs.openSync(path, fs.OpenMode.READ_WRITE | fs.OpenMode.CREATE | fs.OpenMode.TRUNC);
+    try {
+      fs.writeSync(file.fd, JSON.stringify(cassette, null, 2));
+    } finally {
+      fs.closeSync(file);
+    }
+  } catch (error) {
+    hilog.error(DOMAIN, TAG, '写入录制文件失败: %{public}s, error: %{public}s', path, (error as Error).message);
+  }
+}
+
+async function readRawCassette(context: common.UIAbilityContext, name: string): Promise<FixtureCassette | null> {
+  try {
+    const bytes = await context.resourceManager.getRawFileContent(`${FIXTURE_DIR}/${name}.json`);
+    const text = decodeUtf8(bytes);
+    return parseCassette(text);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 按配置开启录制或回放
+ * 录制文件保存在应用沙箱 files/fixtures/<name>.json；回放时优先读取沙箱文件，其次读取 rawfile/fixtures/<name>.json
+ */
+export async function setupHttpFixtures(
+  context: common.UIAbilityContext,
+  config: AppConfig,
+  secretReader: SecretReader
+): Promise<void> {
+  const mode = config.httpFixtureMode ?? 'off';
+  if (mode === 'off') {
+    setHttpInterceptor(null);
+    return;
+  }
+
+  const name = config.httpFixtureName || 'default';
+  const dir = `${context.filesDir}/${FIXTURE_DIR}`;
+  const path = `${dir}/${name}.json`;
+  const secrets = SECRET_IDS.map(id => secretReader.getSecret(id)).filter((secret): secret is string => !!secret);
+
+  if (mode === 'record') {
+    if (!fs.accessSync(dir)) {
+      fs.mkdirSync(dir);
+    }
+    const existing = readCassetteFile(path);
+    setHttpInterceptor(new FixtureInterceptor('record', existing ?? undefined, {
+      secrets,
+      onChange: (cassette: FixtureCassette) => writeCassetteFile(path, cassette),
+    }));
+    hilog.info(DOMAIN, TAG, '已开启录制模式, 文件: %{public}s, 已有%{public}d条', path,
+      existing?.fixtures.length ?? 0);
+    return;
+  }
+
+  const cassette = readCassetteFile(path) ?? await readRawCassette(context, name);
+  if (!cassette) {
+    hilog.warn(DOMAIN, TAG, '未找到回放数据: %{public}s，所有请求都将失败', name);
+  }
+  setHttpInterceptor(new FixtureInterceptor('replay', cassette ?? undefined, { secrets }));
+  hilog.info(DOMAIN, TAG, '已开启回放模式, 数据: %{public}s, 共%{public}d条', name, cassette?.fixtures.length ?? 0);
+}
@@ -0,0 +1,181 @@
+import { huks } from '@kit.UniversalKeystoreKit';
+import { cryptoFramework } from '@kit.CryptoArchitectureKit';
+import preferences from '@ohos.data.preferences';
+import common from '@ohos.app.ability.common';
+import util from '@ohos.util';
+import { hilog } from '@kit.PerformanceAnalysisKit';
+import { BusinessError } from '@kit.BasicServicesKit';
+import { SECRET_IDS, type SecretId, type SecretStore, type SecretValues } from './secretStore';
+import { decodeUtf8 } from './utf8';
+import { LazyStore } from './lazyStore';
+
+const DOMAIN = 0x0000;
+const TAG = 'HuksSecretStore';
+
+// HUKS中加密密钥的别名，密钥本身不出安全环境
+const KEY_ALIAS = 'ai_tour_secret_key';
+const STORE_NAME = 'secure_secrets';
+const NONCE_BYTES = 12;
+const AE_TAG_BYTES = 16;
+
+// 保存在首选项中的密文
+interface EncryptedSecret {
+  nonce: string; // Base64
+  data: string; // Base64，密文（末尾16字节为GCM认证标签）
+}
+
+/**
+ * 密文已无法解密：HUKS密钥不存在（如重装后丢失），或GCM认证失败（密文被篡改或换过密钥）
+ * 其他错误（如密钥库暂时不可用）可能下次就能恢复，不应删除密文
+ */
+function isUnrecoverable(error: unknown): boolean {
+  const code = (error as BusinessError)?.code;
+  return code === huks.HuksExceptionErrCode.HUKS_ERR_CODE_ITEM_NOT_EXIST ||
+    code === huks.HuksExceptionErrCode.HUKS_ERR_CODE_CRYPTO_FAIL;
+}
+
+function cipherProperties(purpose: huks.HuksKeyPurpose, nonce: Uint8Array, id: SecretId): huks.HuksParam[] {
+  return [
+    { tag: huks.HuksTag.HUKS_TAG_ALGORITHM, value: huks.HuksKeyAlg.HUKS_ALG_AES },
+    { tag: huks.HuksTag.HUKS_TAG_KEY_SIZE, value: huks.HuksKeySize.HUKS_AES_KEY_SIZE_256 },
+    { tag: huks.HuksTag.HUKS_TAG_PURPOSE, value: purpose },
+    { tag: huks.HuksTag.HUKS_TAG_PADDING, value: huks.HuksKeyPadding.HUKS_PADDING_NONE },
+    { tag: huks.HuksTag.HUKS_TAG_BLOCK_MODE, value: huks.HuksCipherMode.HUKS_MODE_GCM },
+    { tag: huks.HuksTag.HUKS_TAG_NONCE, value: nonce },
+    // 以密钥名作为附加数据，密文不能被挪用到其他密钥上
+    { tag: huks.HuksTag.HUKS_TAG_ASSOCIATED_DATA, value: new util.TextEncoder().encodeInto(id) },
+  ];
+}
+
+/**
+ * 使用HUKS（通用密钥库）中的AES-256-GCM密钥加密保存密钥，密文存放在首选项中
+ * 卸载应用后HUKS密钥随之删除，已保存的密钥需要重新填写
+ */
+export class HuksSecretStore implements SecretStore {
+  private context: common.Context;
+  private values: SecretValues = {};
+  private store: LazyStore<preferences.Preferences> = new LazyStore(() => this.openStore());
+  private base64 = new util.Base64Helper();
+
+  constructor(context: common.Context) {
+    this.context = context;
+  }
+
+  /**
+   * 读取并解密所有已保存的密钥，已无法解密的密钥（HUKS密钥丢失或认证失败）会被删除
+   * 其他解密错误保留密文并抛出
+   */
+  async load(): Promise<void> {
+    const store = await this.store.get();
+    const values: SecretValues = {};
+    for (const id of SECRET_IDS) {
+      const text = await store.get(id, '') as string;
+      if (!text) {
+        continue;
+      }
+      try {
+        values[id] = await this.decrypt(id, JSON.parse(text) as EncryptedSecret);
+      } catch (error) {
+        if (!isUnrecoverable(error)) {
+          hilog.error(DOMAIN, TAG, '密钥解密失败，保留密文: %{public}s, %{public}s', id, (error as Error).message);
+          throw error as Error;
+        }
+        hilog.warn(DOMAIN, TAG, '密钥解密失败，已删除: %{public}s, %{public}s', id, (error as Error).message);
+        await store.delete(id);
+      }
+    }
+    await store.flush();
+    this.values = values;
+  }
+
+  getSecret(id: SecretId): string | undefined {
+    return this.values[id];
+  }
+
+  async setSecret(id: SecretId, value: string): Promise<void> {
+    const text = value.trim();
+    const encrypted = await this.encrypt(id, text);
+    const store = await this.store.get();
+    await store.put(id, JSON.stringify(encrypted));
+    await store.flush();
+    this.values[id] = text;
+    hilog.info(DOMAIN, TAG, '已保存密钥: %{public}s', id);
+  }
+
+  async removeSecret(id: SecretId): Promise<void> {
+    const store = await this.store.get();
+    await store.delete(id);
+    await store.flush();
+    delete this.values[id];
+  }
+
+  private async ensureKey(): Promise<void> {
+    const options: huks.HuksOptions = { properties: [] };
+    if (await huks.hasKeyItem(KEY_ALIAS, options)) {
+      return;
+    }
+    await huks.generateKeyItem(KEY_ALIAS, {
+      properties: [
+        { tag: huks.HuksTag.HUKS_TAG_ALGORITHM, value: huks.HuksKeyAlg.HUKS_ALG_AES },
+        { tag: huks.HuksTag.HUKS_TAG_KEY_SIZE, value: huks.HuksKeySize.HUKS_AES_KEY_SIZE_256 },
+        {
+          tag: huks.HuksTag.HUKS_TAG_PURPOSE,
+          value: huks.HuksKeyPurpose.HUKS_KEY_PURPOSE_ENCRYPT | huks.HuksKeyPurpose.HUKS_KEY_PURPOSE_DECRYPT,
+        },
+        { tag: huks.HuksTag.HUKS_TAG_PADDING, value: huks.HuksKeyPadding.HUKS_PADDING_NONE },
+        { tag: huks.HuksTag.HUKS_TAG_BLOCK_MODE, value: huks.HuksCipherMode.HUKS_MODE_GCM },
+      ],
+    });
+    hilog.info(DOMAIN, TAG, '已生成密钥加密密钥');
+  }
+
+  private async encrypt(id: SecretId, text: string): Promise<EncryptedSecret> {
+    await this.ensureKey();
+    const nonce = cryptoFramework.createRandom().generateRandomSync(NONCE_BYTES).data;
+    const properties = cipherProperties(huks.HuksKeyPurpose.HUKS_KEY_PURPOSE_ENCRYPT, nonce, id);
+    const session = await huks.initSession(KEY_ALIAS, { properties });
+    const result = await huks.finishSession(session.handle, {
+      properties,
+      inData: new util.TextEncoder().encodeInto(text),
+    });
+    if (!result.outData) {
+      throw new Error('密钥加密失败');
+    }
+    return {
+      nonce: this.base64.encodeToStringSync(nonce),
+      data: this.base64.encodeToStringSync(result.outData),
+    };
+  }
+
+  private async decrypt(id: SecretId, encrypted: EncryptedSecret): Promise<string> {
+    const nonce = this.base64.decodeSync(encrypted.nonce);
+    const data = this.base64.decodeSync(encrypted.data);
+    const properties = cipherProperties(huks.HuksKeyPurpose.HUKS_KEY_PURPOSE_DECRYPT, nonce, id);
+    properties.push({ tag: huks.HuksTag.HUKS_TAG_AE_TAG, value: data.slice(data.length - AE_TAG_BYTES) });
+    const session = await huks.initSession(KEY_ALIAS, { properties });
+    const result = await huks.finishSession(session.handle, {
+      properties,
+      inData: data.slice(0, data.length - AE_TAG_BYTES),
+    });
+    if (!result.outData) {
+      throw new Error('密钥解密失败');
+    }
+    return decodeUtf8(result.outData);
+  }
+
+  private openStore(): Promise<preferences.Preferences> {
+    return preferences.getPreferences(this.context, STORE_NAME);
+  }
+}
+
+let sharedStore: HuksSecretStore | null = null;
+
+/**
+ * 应用内共享的密钥存储，各页面读取到的是同一份已解密的密钥
+ */
+export function getSecretStore(context: common.Context): HuksSecretStore {
+  if (!sharedStore) {
+    sharedStore = new HuksSecretStore(context.getApplicationContext());
+  }
+  return sharedStore;
+}
@@ -0,0 +1,26 @@
+/**
+ * 延迟打开的存储：首次使用时才打开，并发调用共用同一次打开
+ * 打开失败时不缓存失败结果，下次调用重新打开
+ */
+export class LazyStore<T> {
+  private open: () => Promise<T>;
+  private storePromise: Promise<T> | null = null;
+
+  constructor(open: () => Promise<T>) {
+    this.open = open;
+  }
+
+  get(): Promise<T> {
+    if (!this.storePromise) {
+      const promise = this.open();
+      this.storePromise = promise;
+      // 打开失败时允许下次重试
+      promise.catch(() => {
+        if (this.storePromise === promise) {
+          this.storePromise = null;
+        }
+      });
+    }
+    return this.storePromise;
+  }
+}
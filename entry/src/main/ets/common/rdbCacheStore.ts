@@ -0,0 +1,121 @@
+import relationalStore from '@ohos.data.relationalStore';
+import common from '@ohos.app.ability.common';
+import type { CacheRecord, CacheStore } from './ttlCache';
+import { LazyStore } from './lazyStore';
+
+const TABLE = 'cache_entry';
+
+const CREATE_TABLE_SQL = `CREATE TABLE IF NOT EXISTS ${TABLE} (
+  cache_key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  expires_at INTEGER NOT NULL,
+  last_access INTEGER NOT NULL,
+  size INTEGER NOT NULL
+)`;
+
+/**
+ * 基于关系型数据库的缓存存储，应用重启后仍然有效
+ */
+export class RdbCacheStore implements CacheStore {
+  private context: common.Context;
+  private dbName: string;
+  private store: LazyStore<relationalStore.RdbStore> = new LazyStore(() => this.openStore());
+
+  constructor(context: common.Context, dbName: string) {
+    this.context = context;
+    this.dbName = dbName;
+  }
+
+  async load(key: string): Promise<CacheRecord | undefined> {
+    const store = await this.store.get();
+    const resultSet = await store.querySql(
+      `SELECT value, expires_at, last_access, size FROM ${TABLE} WHERE cache_key = ?`, [key]);
+    try {
+      if (!resultSet.goToFirstRow()) {
+        return undefined;
+      }
+      return {
+        key,
+        value: resultSet.getString(resultSet.getColumnIndex('value')),
+        expiresAt: resultSet.getLong(resultSet.getColumnIndex('expires_at')),
+        lastAccess: resultSet.getLong(resultSet.getColumnIndex('last_access')),
+        size: resultSet.getLong(resultSet.getColumnIndex('size')),
+      };
+    } finally {
+      resultSet.close();
+    }
+  }
+
+  async save(record: CacheRecord): Promise<void> {
+    const store = await this.store.get();
+    await store.executeSql(
+      `INSERT OR REPLACE INTO ${TABLE} (cache_key, value, expires_at, last_access, size) VALUES (?, ?, ?, ?, ?)`,
+      [record.key, record.value, record.expiresAt, record.lastAccess, record.size]);
+  }
+
+  async touch(key: string, lastAccess: number): Promise<void> {
+    const store = await this.store.get();
+    await store.executeSql(`UPDATE ${TABLE} SET last_access = ? WHERE cache_key = ?`, [lastAccess, key]);
+  }
+
+  async remove(key: string): Promise<void> {
+    const store = await this.store.get();
+    await store.executeSql(`DELETE FROM ${TABLE} WHERE cache_key = ?`, [key]);
+  }
+
+  async evict(maxEntries: number, maxBytes: number): Promise<number> {
+    const store = await this.store.get();
+    const resultSet = await store.querySql(`SELECT COUNT(*) AS total, IFNULL(SUM(size), 0) AS bytes FROM ${TABLE}`);
+    let count = 0;
+    let bytes = 0;
+    try {
+      if (resultSet.goToFirstRow()) {
+        count = resultSet.getLong(resultSet.getColumnIndex('total'));
+        bytes = resultSet.getLong(resultSet.getColumnIndex('bytes'));
+      }
+    } finally {
+      resultSet.close();
+    }
+    if (count <= maxEntries && bytes <= maxBytes) {
+      return 0;
+    }
+
+    // 按最近访问时间从旧到新逐条累计，确定需要淘汰的条目
+    const candidates = await store.querySql(`SELECT cache_key, size FROM ${TABLE} ORDER BY last_access ASC`);
+    const keys: string[] = [];
+    try {
+      while (candidates.goToNextRow() && (count > maxEntries || bytes > maxBytes)) {
+        keys.push(candidates.getString(candidates.getColumnIndex('cache_key')));
+        bytes -= candidates.getLong(candidates.getColumnIndex('size'));
+        count--;
+      }
+    } finally {
+      candidates.close();
+    }
+    for (const key of keys) {
+      await store.executeSql(`DELETE FROM ${TABLE} WHERE cache_key = ?`, [key]);
+    }
+    return keys.length;
+  }
+
+  async purgeExpired(now: number): Promise<number> {
+    const store = await this.store.get();
+    const predicates = new relationalStore.RdbPredicates(TABLE);
+    predicates.greaterThan('expires_at', 0).and().lessThanOrEqualTo('expires_at', now);
+    return store.delete(predicates);
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.store.get();
+    await store.executeSql(`DELETE FROM ${TABLE}`);
+  }
+
+  private async openStore(): Promise<relationalStore.RdbStore> {
+    const store = await relationalStore.getRdbStore(this.context, {
+      name: this.dbName,
+      securityLevel: relationalStore.SecurityLevel.S1,
+    });
+    await store.executeSql(CREATE_TABLE_SQL);
+    return store;
+  }
+}
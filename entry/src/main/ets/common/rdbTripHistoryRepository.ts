@@ -0,0 +1,130 @@
+import relationalStore from '@ohos.data.relationalStore';
+import common from '@ohos.app.ability.common';
+import {
+  tripSearchText,
+  type TripHistoryQuery,
+  type TripHistoryRepository,
+  type TripRecord
+} from '../domain/tripHistory';
+import { LazyStore } from './lazyStore';
+
+const TRIP_HISTORY_DB = 'trip_history.db';
+const TABLE = 'trip_history';
+
+const CREATE_TABLE_SQL = `CREATE TABLE IF NOT EXISTS ${TABLE} (
+  id TEXT PRIMARY KEY,
+  search_text TEXT NOT NULL,
+  favorite INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  data TEXT NOT NULL
+)`;
+
+/**
+ * 基于关系型数据库的历史行程存储，整条记录以JSON保存，检索字段单独成列
+ */
+export class RdbTripHistoryRepository implements TripHistoryRepository {
+  private context: common.Context;
+  private store: LazyStore<relationalStore.RdbStore> = new LazyStore(() => this.openStore());
+
+  constructor(context: common.Context) {
+    this.context = context;
+  }
+
+  async save(record: TripRecord): Promise<void> {
+    const store = await this.store.get();
+    await store.executeSql(
+      `INSERT OR REPLACE INTO ${TABLE} (id, search_text, favorite, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?, ?)`,
+      [record.id, tripSearchText(record), record.favorite ? 1 : 0, record.createdAt, record.updatedAt,
+        JSON.stringify(record)]);
+  }
+
+  async get(id: string): Promise<TripRecord | undefined> {
+    const records = await this.query(`SELECT data, favorite FROM ${TABLE} WHERE id = ?`, [id]);
+    return records[0];
+  }
+
+  async list(query: TripHistoryQuery = {}): Promise<TripRecord[]> {
+    const conditions: string[] = [];
+    const args: Array<string | number> = [];
+    if (query.favoritesOnly) {
+      conditions.push('favorite = 1');
+    }
+    const keyword = query.keyword?.trim();
+    if (keyword) {
+      conditions.push(`search_text LIKE ? ESCAPE '\\'`);
+      args.push(`%${keyword.replace(/[\\%_]/g, char => `\\${char}`)}%`);
+    }
+    let sql = `SELECT data, favorite FROM ${TABLE}`;
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    sql += ' ORDER BY updated_at DESC';
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ?';
+      args.push(query.limit);
+    }
+    return this.query(sql, args);
+  }
+
+  async setFavorite(id: string, favorite: boolean): Promise<void> {
+    const store = await this.store.get();
+    await store.executeSql(`UPDATE ${TABLE} SET favorite = ? WHERE id = ?`, [favorite ? 1 : 0, id]);
+  }
+
+  async remove(id: string): Promise<void> {
+    const store = await this.store.get();
+    await store.executeSql(`DELETE FROM ${TABLE} WHERE id = ?`, [id]);
+  }
+
+  async prune(maxEntries: number): Promise<number> {
+    const store = await this.store.get();
+    const resultSet = await store.querySql(
+      `SELECT id FROM ${TABLE} WHERE favorite = 0 ORDER BY updated_at DESC LIMIT -1 OFFSET ?`, [maxEntries]);
+    const ids: string[] = [];
+    try {
+      while (resultSet.goToNextRow()) {
+        ids.push(resultSet.getString(resultSet.getColumnIndex('id')));
+      }
+    } finally {
+      resultSet.close();
+    }
+    for (const id of ids) {
+      await store.executeSql(`DELETE FROM ${TABLE} WHERE id = ?`, [id]);
+    }
+    return ids.length;
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.store.get();
+    await store.executeSql(`DELETE FROM ${TABLE}`);
+  }
+
+  /**
+   * 收藏状态以单独的列为准，JSON中的值可能已过期
+   */
+  private async query(sql: string, args: Array<string | number>): Promise<TripRecord[]> {
+    const store = await this.store.get();
+    const resultSet = await store.querySql(sql, args);
+    const records: TripRecord[] = [];
+    try {
+      while (resultSet.goToNextRow()) {
+        const record = JSON.parse(resultSet.getString(resultSet.getColumnIndex('data'))) as TripRecord;
+        record.favorite = resultSet.getLong(resultSet.getColumnIndex('favorite')) === 1;
+        records.push(record);
+      }
+    } finally {
+      resultSet.close();
+    }
+    return records;
+  }
+
+  private async openStore(): Promise<relationalStore.RdbStore> {
+    const store = await relationalStore.getRdbStore(this.context, {
+      name: TRIP_HISTORY_DB,
+      securityLevel: relationalStore.SecurityLevel.S1,
+    });
+    await store.executeSql(CREATE_TABLE_SQL);
+    return store;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * 需要保密的密钥：不写入 config.json（会随安装包分发），由用户在应用内填写后加密保存在本机
+ */
+export type SecretId = 'amapKey' | 'llmApiKey';
+
+export type SecretValues = Partial<Record<SecretId, string>>;
+
+export const SECRET_IDS: SecretId[] = ['amapKey', 'llmApiKey'];
+
+export const SECRET_LABELS: Record<SecretId, string> = {
+  amapKey: '高德地图密钥',
+  llmApiKey: '大模型密钥',
+};
+
+// config.sample.json 中的占位密钥
+const PLACEHOLDER_PATTERN = /^your_\w+_here$/;
+
+/**
+ * 读取密钥，服务通过此接口获取密钥而不是读取 AppConfig
+ */
+export interface SecretReader {
+  getSecret(id: SecretId): string | undefined;
+}
+
+/**
+ * 密钥存储：load 之后 getSecret 可同步读取
+ */
+export interface SecretStore extends SecretReader {
+  load(): Promise<void>;
+  setSecret(id: SecretId, value: string): Promise<void>;
+  removeSecret(id: SecretId): Promise<void>;
+}
+
+export function isSecretId(key: string): key is SecretId {
+  return (SECRET_IDS as string[]).includes(key);
+}
+
+/**
+ * 校验用户填写的密钥
+ * @returns 错误描述，有效时返回undefined
+ */
+export function validateSecret(value: string): string | undefined {
+  const text = value.trim();
+  if (!text) {
+    return '不能为空';
+  }
+  if (PLACEHOLDER_PATTERN.test(text)) {
+    return '仍为示例值，请填写真实密钥';
+  }
+  return /\s/.test(text) ? '不能包含空白字符' : undefined;
+}
+
+/**
+ * 密钥的显示文本，只显示末4位
+ */
+export function maskSecret(value: string | undefined): string {
+  if (!value) {
+    return '';
+  }
+  return value.length > 4 ? `****${value.slice(-4)}` : '****';
+}
+
+/**
+ * 导入 config.json 中的密钥（用于开发环境一次性预置），本机已保存的密钥不会被覆盖
+ * @returns 导入的密钥
+ */
+export async function provisionSecrets(store: SecretStore, secrets: SecretValues): Promise<SecretId[]> {
+  const imported: SecretId[] = [];
+  for (const id of SECRET_IDS) {
+    const value = secrets[id];
+    if (value && !store.getSecret(id)) {
+      await store.setSecret(id, value);
+      imported.push(id);
+    }
+  }
+  return imported;
+}
+
+/**
+ * 只保存在内存中的密钥，用于测试
+ */
+export class MemorySecretStore implements SecretStore {
+  private values: SecretValues;
+
+  constructor(values: SecretValues = {}) {
+    this.values = { ...values };
+  }
+
+  async load(): Promise<void> {
+    // 内存中的密钥无需加载
+  }
+
+  getSecret(id: SecretId): string | undefined {
+    return this.values[id];
+  }
+
+  async setSecret(id: SecretId, value: string): Promise<void> {
+    this.values[id] = value.trim();
+  }
+
+  async removeSecret(id: SecretId): Promise<void> {
+    delete this.values[id];
+  }
+}
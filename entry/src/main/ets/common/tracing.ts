@@ -0,0 +1,246 @@
+import util from '@ohos.util';
+import { hilog } from '@kit.PerformanceAnalysisKit';
+
+const DOMAIN = 0x0000;
+const TAG = 'Tracing';
+
+// 内存中保留的最近调用记录数
+export const MAX_TRACES = 20;
+// 参数值超过此长度时截断
+const MAX_PARAM_LENGTH = 80;
+// 坐标保留的小数位数（约1公里精度），避免诊断记录中出现精确位置
+const COORDINATE_DIGITS = 2;
+
+// 不记录原值的参数名，录制回放（httpFixtures）同样不记录这些参数
+export const SECRET_PARAMS = ['key', 'apikey', 'api_key', 'token', 'access_token', 'sig'];
+
+export type SpanStatus = 'ok' | 'error' | 'cancelled';
+
+interface ErrorWithKind {
+  kind?: string;
+}
+
+export type TraceParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * 一个步骤的耗时与结果
+ */
+export interface TraceSpan {
+  name: string; // 步骤名，如 amap.searchPoi、llm.complete
+  start: number; // 相对调用开始的时间（毫秒）
+  duration: number;
+  status: SpanStatus;
+  params: Record<string, string>; // 已脱敏
+  detail?: string; // 结果摘要，如"32个POI"
+  error?: string;
+}
+
+/**
+ * 一次调用（生成或调整行程）的完整记录，可直接序列化为JSON
+ */
+export interface TraceRecord {
+  id: string; // 关联ID，展示给用户用于反馈问题
+  name: string;
+  startedAt: string; // ISO时间
+  duration: number;
+  status: SpanStatus;
+  spans: TraceSpan[];
+  error?: string;
+}
+
+export function isSecretParam(name: string): boolean {
+  return SECRET_PARAMS.includes(name.toLowerCase());
+}
+
+function redactValue(value: string): string {
+  // "经度,纬度" 或以"|"/";"分隔的多个坐标
+  if (/^-?\d+\.\d+,-?\d+\.\d+([|;]-?\d+\.\d+,-?\d+\.\d+)*$/.test(value)) {
+    return value.replace(/-?\d+\.\d+/g, number => Number(number).toFixed(COORDINATE_DIGITS));
+  }
+  return value.length > MAX_PARAM_LENGTH ? `${value.substring(0, MAX_PARAM_LENGTH)}…(${value.length})` : value;
+}
+
+/**
+ * 参数脱敏：密钥参数只保留是否填写，坐标降低精度，过长的值截断
+ */
+export function redactParams(params: TraceParams): Record<string, string> {
+  const result: Record<string, string> = {};
+  Object.keys(params).forEach(name => {
+    const value = params[name];
+    if (value === undefined || value === null || value === '') {
+      return;
+    }
+    result[name] = isSecretParam(name) ? '***' : redactValue(String(value));
+  });
+  return result;
+}
+
+/**
+ * 调用方取消的步骤标记为 cancelled：HTTP、大模型和高德服务的错误都带 kind 字段，取消时均为 'aborted'，
+ * 这里按字段判断，避免公共层依赖服务层的错误类型
+ */
+function spanStatusOf(error: unknown): SpanStatus {
+  return (error as ErrorWithKind | undefined)?.kind === 'aborted' ? 'cancelled' : 'error';
+}
+
+function errorText(error: unknown): string {
+  return (error as Error)?.message ?? String(error);
+}
+
+/**
+ * 一次调用的追踪：按顺序记录各步骤的耗时、状态和脱敏后的参数
+ */
+export class Trace {
+  readonly id: string;
+  readonly name: string;
+  private startTime: number;
+  private spans: TraceSpan[] = [];
+
+  constructor(name: string, id: string = util.generateRandomUUID(false).replace(/-/g, '').substring(0, 12)) {
+    this.id = id;
+    this.name = name;
+    this.startTime = Date.now();
+  }
+
+  /**
+   * 执行一个异步步骤并记录，步骤抛出的异常记录后原样抛出
+   * @param describe 可选，根据返回值生成结果摘要
+   */
+  async span<T>(name: string, params: TraceParams, run: () => Promise<T>, describe?: (value: T) => string): Promise<T> {
+    const start = Date.now();
+    try {
+      const value = await run();
+      this.addSpan(name, params, start, 'ok', describe?.(value));
+      return value;
+    } catch (error) {
+      this.addSpan(name, params, start, spanStatusOf(error), undefined, errorText(error));
+      throw error;
+    }
+  }
+
+  /**
+   * 执行一个同步步骤并记录
+   */
+  spanSync<T>(name: string, params: TraceParams, run: () => T, describe?: (value: T) => string): T {
+    const start = Date.now();
+    try {
+      const value = run();
+      this.addSpan(name, params, start, 'ok', describe?.(value));
+      return value;
+    } catch (error) {
+      this.addSpan(name, params, start, spanStatusOf(error), undefined, errorText(error));
+      throw error;
+    }
+  }
+
+  /**
+   * 结束追踪
+   * @param error 可选，导致调用失败的异常
+   */
+  finish(error?: unknown): TraceRecord {
+    const record: TraceRecord = {
+      id: this.id,
+      name: this.name,
+      startedAt: new Date(this.startTime).toISOString(),
+      duration: Date.now() - this.startTime,
+      status: error === undefined ? 'ok' : spanStatusOf(error),
+      spans: [...this.spans],
+      error: error === undefined ? undefined : errorText(error),
+    };
+    const failed = record.spans.filter(span => span.status !== 'ok').length;
+    hilog.info(DOMAIN, TAG, '[%{public}s] %{public}s 结束, 耗时: %{public}dms, 状态: %{public}s, 步骤: %{public}d, 失败: %{public}d',
+      record.id, record.name, record.duration, record.status, record.spans.length, failed);
+    return record;
+  }
+
+  private addSpan(
+    name: string,
+    params: TraceParams,
+    start: number,
+    status: SpanStatus,
+    detail?: string,
+    error?: string
+  ): void {
+    const span: TraceSpan = {
+      name,
+      start: start - this.startTime,
+      duration: Date.now() - start,
+      status,
+      params: redactParams(params),
+      detail,
+      error,
+    };
+    this.spans.push(span);
+    if (status === 'ok') {
+      hilog.debug(DOMAIN, TAG, '[%{public}s] %{public}s 完成, 耗时: %{public}dms', this.id, name, span.duration);
+    } else {
+      hilog.warn(DOMAIN, TAG, '[%{public}s] %{public}s 失败, 耗时: %{public}dms, %{public}s',
+        this.id, name, span.duration, error ?? status);
+    }
+  }
+}
+
+/**
+ * 最近的调用记录，超出上限时丢弃最早的记录
+ */
+export class TraceRecorder {
+  private traces: TraceRecord[] = [];
+  private limit: number;
+
+  constructor(limit: number = MAX_TRACES) {
+    this.limit = limit;
+  }
+
+  add(record: TraceRecord): void {
+    this.traces = [record, ...this.traces].slice(0, this.limit);
+  }
+
+  /**
+   * @returns 按时间由新到旧排列的记录
+   */
+  list(): TraceRecord[] {
+    return [...this.traces];
+  }
+
+  get(id: string): TraceRecord | undefined {
+    return this.traces.find(trace => trace.id === id);
+  }
+
+  clear(): void {
+    this.traces = [];
+  }
+}
+
+/**
+ * 导出为JSON，用于反馈问题
+ */
+export function exportTraces(traces: TraceRecord[], now: number = Date.now()): string {
+  return JSON.stringify({ exportedAt: new Date(now).toISOString(), traces }, null, 2);
+}
+
+/**
+ * 一步的简短描述，如"amap.searchPoi 320ms"
+ */
+export function formatSpan(span: TraceSpan): string {
+  const status = span.status === 'ok' ? '' : span.status === 'cancelled' ? ' 已取消' : ' 失败';
+  return `${span.name} ${span.duration}ms${status}`;
+}
+
+/**
+ * 脱敏后的参数文本，如"city=北京 keywords=博物馆"
+ */
+export function formatSpanParams(span: TraceSpan): string {
+  return Object.keys(span.params).map(name => `${name}=${span.params[name]}`).join(' ');
+}
+
+let sharedRecorder: TraceRecorder | null = null;
+
+/**
+ * 应用内共享的调用记录，诊断页读取的是同一份记录
+ */
+export function getTraceRecorder(): TraceRecorder {
+  if (!sharedRecorder) {
+    sharedRecorder = new TraceRecorder();
+  }
+  return sharedRecorder;
+}
@@ -0,0 +1,64 @@
+import { systemShare } from '@kit.ShareKit';
+import { uniformTypeDescriptor } from '@kit.ArkData';
+import { fileUri } from '@kit.CoreFileKit';
+import pasteboard from '@ohos.pasteboard';
+import fs from '@ohos.file.fs';
+import common from '@ohos.app.ability.common';
+import { hilog } from '@kit.PerformanceAnalysisKit';
+import type { ExportedFile } from '../domain/export/tripExporter';
+
+const DOMAIN = 0x0000;
+const TAG = 'TripSharing';
+
+// 导出文件写入缓存目录，由系统按需清理
+const EXPORT_DIR = 'exports';
+
+/**
+ * 复制文本到剪贴板
+ */
+export async function copyToPasteboard(text: string): Promise<void> {
+  const data = pasteboard.createData(pasteboard.MIMETYPE_TEXT_PLAIN, text);
+  await pasteboard.getSystemPasteboard().setData(data);
+}
+
+function writeExportFile(context: common.UIAbilityContext, file: ExportedFile): string {
+  const dir = `${context.cacheDir}/${EXPORT_DIR}`;
+  if (!fs.accessSync(dir)) {
+    fs.mkdirSync(dir);
+  }
+  const path = `${dir}/${file.fileName}`;
+  const handle = fs.openSync(path, fs.OpenMode.READ_WRITE | fs.OpenMode.CREATE | fs.OpenMode.TRUNC);
+  try {
+    fs.writeSync(handle.fd, file.content);
+  } finally {
+    fs.closeSync(handle);
+  }
+  return path;
+}
+
+/**
+ * 调起系统分享面板：纯文本直接分享内容，其他格式写入文件后分享
+ */
+export async function shareExport(context: common.UIAbilityContext, file: ExportedFile): Promise<void> {
+  let data: systemShare.SharedData;
+  if (file.format === 'text') {
+    data = new systemShare.SharedData({
+      utd: uniformTypeDescriptor.UniformDataType.PLAIN_TEXT,
+      content: file.content,
+    });
+  } else {
+    const path = writeExportFile(context, file);
+    const extension = file.fileName.slice(file.fileName.lastIndexOf('.'));
+    data = new systemShare.SharedData({
+      utd: uniformTypeDescriptor.getUniformDataTypeByFilenameExtension(extension),
+      uri: fileUri.getUriFromPath(path),
+      title: file.fileName,
+    });
+  }
+  const controller = new systemShare.ShareController(data);
+  await controller.show(context, {
+    previewMode: systemShare.SharePreviewMode.DETAIL,
+    selectionMode: systemShare.SelectionMode.SINGLE,
+  });
+  hilog.info(DOMAIN, TAG, '已调起分享面板: %{public}s', file.fileName);
+}
@@ -0,0 +1,241 @@
+import { hilog } from '@kit.PerformanceAnalysisKit';
+
+const DOMAIN = 0x0000;
+const TAG = 'TtlCache';
+
+/**
+ * 缓存记录，value 为JSON序列化后的文本
+ */
+export interface CacheRecord {
+  key: string;
+  value: string;
+  expiresAt: number; // 过期时间戳（毫秒），0 表示永不过期
+  lastAccess: number;
+  size: number; // value 长度，用于容量控制
+}
+
+/**
+ * 缓存存储后端
+ */
+export interface CacheStore {
+  load(key: string): Promise<CacheRecord | undefined>;
+  save(record: CacheRecord): Promise<void>;
+  touch(key: string, lastAccess: number): Promise<void>;
+  remove(key: string): Promise<void>;
+  /**
+   * 按最近访问时间淘汰，直到条目数和总大小都不超过上限
+   * @returns 淘汰的条目数
+   */
+  evict(maxEntries: number, maxBytes: number): Promise<number>;
+  /**
+   * 删除所有已过期的条目
+   * @returns 删除的条目数
+   */
+  purgeExpired(now: number): Promise<number>;
+  clear(): Promise<void>;
+}
+
+/**
+ * 内存存储后端（不持久化，用于测试或无法获取应用上下文时）
+ */
+export class MemoryCacheStore implements CacheStore {
+  private records: Map<string, CacheRecord> = new Map();
+
+  async load(key: string): Promise<CacheRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  async save(record: CacheRecord): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  async touch(key: string, lastAccess: number): Promise<void> {
+    const record = this.records.get(key);
+    if (record) {
+      record.lastAccess = lastAccess;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  async evict(maxEntries: number, maxBytes: number): Promise<number> {
+    const sorted = Array.from(this.records.values()).sort((a, b) => a.lastAccess - b.lastAccess);
+    let totalBytes = sorted.reduce((sum, record) => sum + record.size, 0);
+    let evicted = 0;
+    while (sorted.length > 0 && (sorted.length > maxEntries || totalBytes > maxBytes)) {
+      const oldest = sorted.shift() as CacheRecord;
+      this.records.delete(oldest.key);
+      totalBytes -= oldest.size;
+      evicted++;
+    }
+    return evicted;
+  }
+
+  async purgeExpired(now: number): Promise<number> {
+    let purged = 0;
+    for (const record of Array.from(this.records.values())) {
+      if (record.expiresAt > 0 && record.expiresAt <= now) {
+        this.records.delete(record.key);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+}
+
+export interface TtlCacheOptions {
+  name: string; // 缓存名称，用于日志
+  maxEntries: number;
+  maxBytes: number;
+}
+
+/**
+ * 带过期时间和容量上限的缓存
+ * key 约定为"命名空间:参数"，按命名空间分别统计命中率
+ * 存储后端异常只记录日志，不影响调用方（视为未命中）
+ */
+export class TtlCache {
+  private store: CacheStore;
+  private options: TtlCacheOptions;
+  private stats: Map<string, CacheStats> = new Map();
+  private purged: boolean = false;
+
+  constructor(store: CacheStore, options: TtlCacheOptions) {
+    this.store = store;
+    this.options = options;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const now = Date.now();
+    try {
+      await this.purgeOnce(now);
+      const record = await this.store.load(key);
+      if (!record) {
+        this.count(key, 'misses');
+        return undefined;
+      }
+      if (record.expiresAt > 0 && record.expiresAt <= now) {
+        this.count(key, 'misses');
+        await this.store.remove(key);
+        return undefined;
+      }
+      this.count(key, 'hits');
+      await this.store.touch(key, now);
+      return JSON.parse(record.value) as T;
+    } catch (error) {
+      hilog.warn(DOMAIN, TAG, '[%{public}s] 读取缓存失败, key: %{public}s, error: %{public}s',
+        this.options.name, key, (error as Error).message);
+      this.count(key, 'misses');
+      return undefined;
+    }
+  }
+
+  /**
+   * 写入缓存
+   * @param ttlMs 有效期（毫秒），0 表示永不过期
+   */
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    const text = JSON.stringify(value);
+    try {
+      await this.store.save({
+        key,
+        value: text,
+        expiresAt: ttlMs > 0 ? now + ttlMs : 0,
+        lastAccess: now,
+        size: text.length,
+      });
+      this.count(key, 'writes');
+      const evicted = await this.store.evict(this.options.maxEntries, this.options.maxBytes);
+      if (evicted > 0) {
+        this.count(key, 'evictions', evicted);
+        hilog.info(DOMAIN, TAG, '[%{public}s] 缓存超出容量，淘汰%{public}d条', this.options.name, evicted);
+      }
+    } catch (error) {
+      hilog.warn(DOMAIN, TAG, '[%{public}s] 写入缓存失败, key: %{public}s, error: %{public}s',
+        this.options.name, key, (error as Error).message);
+    }
+  }
+
+  /**
+   * 优先读取缓存，未命中时调用 loader 并写入缓存
+   * @param shouldCache 判断加载结果是否可缓存，默认不缓存 null/undefined
+   */
+  async getOrLoad<T>(
+    key: string,
+    ttlMs: number,
+    loader: () => Promise<T>,
+    shouldCache: (value: T) => boolean = (value: T) => value !== null && value !== undefined
+  ): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const value = await loader();
+    if (shouldCache(value)) {
+      await this.set(key, value, ttlMs);
+    }
+    return value;
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+    this.stats.clear();
+  }
+
+  getStats(): Record<string, CacheStats> {
+    const result: Record<string, CacheStats> = {};
+    this.stats.forEach((value, namespace) => {
+      result[namespace] = { ...value };
+    });
+    return result;
+  }
+
+  /**
+   * 输出各命名空间的命中统计
+   */
+  logStats(): void {
+    this.stats.forEach((value, namespace) => {
+      const lookups = value.hits + value.misses;
+      const hitRate = lookups > 0 ? Math.round(value.hits / lookups * 100) : 0;
+      hilog.info(DOMAIN, TAG,
+        '[%{public}s] %{public}s 命中: %{public}d, 未命中: %{public}d, 命中率: %{public}d%%, 写入: %{public}d, 淘汰: %{public}d',
+        this.options.name, namespace, value.hits, value.misses, hitRate, value.writes, value.evictions);
+    });
+  }
+
+  private async purgeOnce(now: number): Promise<void> {
+    if (this.purged) {
+      return;
+    }
+    this.purged = true;
+    const purged = await this.store.purgeExpired(now);
+    if (purged > 0) {
+      hilog.info(DOMAIN, TAG, '[%{public}s] 清理过期缓存%{public}d条', this.options.name, purged);
+    }
+  }
+
+  private count(key: string, field: keyof CacheStats, amount: number = 1): void {
+    const separator = key.indexOf(':');
+    const namespace = separator > 0 ? key.substring(0, separator) : key;
+    let stats = this.stats.get(namespace);
+    if (!stats) {
+      stats = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+      this.stats.set(namespace, stats);
+    }
+    stats[field] += amount;
+  }
+}
@@ -0,0 +1,20 @@
+import util from '@ohos.util';
+
+// 一次性解码共用的解码器，decodeToString 不带 stream 参数时不保留状态
+const sharedDecoder = util.TextDecoder.create('utf-8');
+
+/**
+ * 创建UTF-8解码器，开头的BOM会被去掉
+ * 注意 ignoreBOM 为 true 时反而会保留BOM，导致 JSON.parse 失败
+ * 流式解码时每个响应使用单独的解码器
+ */
+export function createUtf8Decoder(): util.TextDecoder {
+  return util.TextDecoder.create('utf-8');
+}
+
+/**
+ * 按UTF-8解码并去掉开头的BOM，逐字节转换会把中文变成乱码
+ */
+export function decodeUtf8(data: Uint8Array): string {
+  return sharedDecoder.decodeToString(data);
+}
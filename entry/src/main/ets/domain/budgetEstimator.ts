@@ -0,0 +1,384 @@
+import type {
+  BudgetCategory,
+  BudgetEstimate,
+  BudgetLine,
+  BudgetRange,
+  BudgetStatus,
+  DayBudget,
+  IntercityTransfer,
+  Itinerary,
+  ItineraryDay,
+  ItinerarySlot,
+  MealType,
+  PoiItem,
+  RouteLeg,
+  TripStopResult
+} from '../services/types';
+import { stopForDay } from './multiCityTrip';
+
+/**
+ * 城市消费基准：住宿为每间每晚，餐饮为每人每天（元）
+ */
+interface CityBaseline {
+  lodging: number;
+  meals: number;
+}
+
+const TIER1_CITIES = ['北京', '上海', '广州', '深圳'];
+const TIER2_CITIES = ['杭州', '南京', '成都', '重庆', '武汉', '西安', '苏州', '天津', '厦门', '青岛', '长沙', '宁波', '郑州'];
+const RESORT_CITIES = ['三亚', '丽江', '大理', '西双版纳', '张家界', '九寨沟', '黄山', '拉萨', '桂林'];
+
+const BASELINES: Record<string, CityBaseline> = {
+  tier1: { lodging: 450, meals: 150 },
+  tier2: { lodging: 300, meals: 110 },
+  resort: { lodging: 350, meals: 120 },
+  default: { lodging: 220, meals: 90 },
+};
+
+// 各餐占全天餐饮预算的比例
+const MEAL_SHARES: Record<MealType, number> = {
+  breakfast: 0.15,
+  lunch: 0.35,
+  dinner: 0.4,
+  snack: 0.1,
+};
+
+const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// 城际高铁每公里票价（元），直线距离按1.3倍折算为线路里程
+const RAIL_PRICE_PER_KM = 0.46;
+const RAIL_DISTANCE_FACTOR = 1.3;
+// 未在行程中标注门票时，每天按两个收费景点估算
+const DEFAULT_PAID_STOPS_PER_DAY = 2;
+
+const CATEGORY_LABELS: Record<BudgetCategory, string> = {
+  lodging: '住宿',
+  meals: '餐饮',
+  tickets: '门票',
+  transport: '交通',
+  other: '其他',
+};
+
+export interface BudgetInput {
+  city: string;
+  days: number;
+  partySize: number;
+  pois: PoiItem[];
+  itinerary?: Itinerary;
+  range?: BudgetRange;
+  intercityDistance?: number; // 出发地与目的地的直线距离（米）
+  returnDistance?: number; // 多目的地行程从最后一站返回出发地的直线距离（米），未提供时按原路返回
+  stops?: TripStopResult[]; // 多目的地行程的各站，住宿与餐饮按当天所在城市计算
+  transfers?: IntercityTransfer[]; // 多目的地行程的城际交通
+}
+
+export function budgetCategoryLabel(category: BudgetCategory): string {
+  return CATEGORY_LABELS[category];
+}
+
+export function getCityBaseline(city: string): CityBaseline {
+  const matches = (list: string[]) => list.some(name => city.includes(name));
+  if (matches(TIER1_CITIES)) {
+    return BASELINES.tier1;
+  }
+  if (matches(RESORT_CITIES)) {
+    return BASELINES.resort;
+  }
+  if (matches(TIER2_CITIES)) {
+    return BASELINES.tier2;
+  }
+  return BASELINES.default;
+}
+
+function isFoodPoi(poi: PoiItem): boolean {
+  return !!poi.typecode?.startsWith('05');
+}
+
+function roomsFor(partySize: number): number {
+  return Math.max(1, Math.ceil(partySize / 2));
+}
+
+/**
+ * 候选景点的平均门票（元/人），没有门票数据时返回0
+ */
+function averageTicket(pois: PoiItem[]): number {
+  const prices = pois
+    .filter(poi => !isFoodPoi(poi) && poi.cost !== undefined && poi.cost > 0)
+    .map(poi => poi.cost as number);
+  if (prices.length === 0) {
+    return 0;
+  }
+  return Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length);
+}
+
+/**
+ * 路线费用：公交按人计费，驾车（打车）按每车4人计费
+ */
+function legCost(leg: RouteLeg, partySize: number): number {
+  if (!leg.cost) {
+    return 0;
+  }
+  if (leg.mode === 'transit') {
+    return leg.cost * partySize;
+  }
+  if (leg.mode === 'driving') {
+    return leg.cost * Math.ceil(partySize / 4);
+  }
+  return 0;
+}
+
+function railCost(distance: number | undefined): number {
+  if (!distance || !Number.isFinite(distance)) {
+    return 0;
+  }
+  return Math.round(distance / 1000 * RAIL_DISTANCE_FACTOR * RAIL_PRICE_PER_KM);
+}
+
+/**
+ * 往返大交通：去程按出发地到第一站，返程按最后一站回出发地（单目的地时原路返回）
+ */
+function intercityCost(input: BudgetInput): number {
+  const outbound = railCost(input.intercityDistance);
+  const back = input.returnDistance !== undefined ? railCost(input.returnDistance) : outbound;
+  return (outbound + back) * input.partySize;
+}
+
+/**
+ * 换城交通费用：优先使用公交（含铁路）方案的票价，否则按直线距离估算高铁票价
+ */
+function transferCost(transfer: IntercityTransfer, partySize: number): number {
+  if (transfer.leg?.mode === 'transit' && transfer.leg.cost) {
+    return transfer.leg.cost * partySize;
+  }
+  if (transfer.leg?.mode === 'driving' && transfer.leg.cost) {
+    return legCost(transfer.leg, partySize);
+  }
+  return railCost(transfer.distance ?? transfer.leg?.distance) * partySize;
+}
+
+/**
+ * 按开始时间推断餐饮类地点对应的餐次，时间无法识别时返回undefined
+ */
+function slotMealType(slot: ItinerarySlot): MealType | undefined {
+  const match = slot.time.match(/^(\d{1,2})[:：](\d{2})/);
+  if (!match) {
+    return undefined;
+  }
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  if (minutes < 10 * 60) {
+    return 'breakfast';
+  }
+  if (minutes >= 11 * 60 && minutes < 14 * 60 + 30) {
+    return 'lunch';
+  }
+  if (minutes >= 17 * 60 && minutes < 21 * 60) {
+    return 'dinner';
+  }
+  return 'snack';
+}
+
+function baselineForDay(input: BudgetInput, day: number): CityBaseline {
+  const stop = input.stops && input.stops.length > 0 ? stopForDay(input.stops, day) : undefined;
+  return getCityBaseline(stop?.city ?? input.city);
+}
+
+function estimateItineraryDay(day: ItineraryDay, input: BudgetInput, baseline: CityBaseline): BudgetLine[] {
+  const lines: BudgetLine[] = [];
+  const { partySize, pois } = input;
+  const countedMeals = new Set<number>();
+  // 已按实际价格或餐次比例计入的餐次，其余餐次按城市基准补足
+  const listedMeals = new Set<MealType>();
+  const coveredMeals = new Set<MealType>();
+
+  for (const meal of day.meals) {
+    const poi = meal.poiIndex !== undefined ? pois[meal.poiIndex] : undefined;
+    const perPerson = poi?.cost && poi.cost > 0 ? poi.cost : Math.round(baseline.meals * MEAL_SHARES[meal.type]);
+    if (meal.poiIndex !== undefined) {
+      countedMeals.add(meal.poiIndex);
+    }
+    listedMeals.add(meal.type);
+    coveredMeals.add(meal.type);
+    lines.push({ category: 'meals', label: meal.name, amount: perPerson * partySize });
+  }
+
+  const slotLines: BudgetLine[] = [];
+  for (const slot of day.slots) {
+    const poi = slot.poiIndex !== undefined ? pois[slot.poiIndex] : undefined;
+    if (!poi?.cost || poi.cost <= 0 || (slot.poiIndex !== undefined && countedMeals.has(slot.poiIndex))) {
+      continue;
+    }
+    if (isFoodPoi(poi)) {
+      // 与已列出的餐次时间重合的餐厅不重复计入
+      const mealType = slotMealType(slot);
+      if (mealType && listedMeals.has(mealType)) {
+        continue;
+      }
+      if (mealType) {
+        coveredMeals.add(mealType);
+      }
+    }
+    slotLines.push({
+      category: isFoodPoi(poi) ? 'meals' : 'tickets',
+      label: isFoodPoi(poi) ? slot.name : `${slot.name}门票`,
+      amount: poi.cost * partySize,
+    });
+  }
+
+  const share = MEAL_TYPES
+    .filter(type => !coveredMeals.has(type))
+    .reduce((sum, type) => sum + MEAL_SHARES[type], 0);
+  const perPerson = Math.round(baseline.meals * share);
+  if (perPerson > 0) {
+    lines.push({ category: 'meals', label: coveredMeals.size > 0 ? '其余餐饮' : '当日餐饮', amount: perPerson * partySize });
+  }
+  lines.push(...slotLines);
+
+  for (const leg of day.legs ?? []) {
+    const amount = legCost(leg, partySize);
+    if (amount > 0) {
+      lines.push({ category: 'transport', label: `${leg.fromName ?? ''} → ${leg.toName ?? ''}`, amount });
+    }
+  }
+  return lines;
+}
+
+function estimateBaselineDay(input: BudgetInput, baseline: CityBaseline): BudgetLine[] {
+  const lines: BudgetLine[] = [
+    { category: 'meals', label: '当日餐饮', amount: baseline.meals * input.partySize },
+  ];
+  const ticket = averageTicket(input.pois);
+  if (ticket > 0) {
+    lines.push({
+      category: 'tickets',
+      label: `景点门票（按${DEFAULT_PAID_STOPS_PER_DAY}个估算）`,
+      amount: ticket * DEFAULT_PAID_STOPS_PER_DAY * input.partySize,
+    });
+  }
+  return lines;
+}
+
+/**
+ * 换算为全体总预算：人均预算乘以人数
+ */
+export function totalBudgetRange(range: BudgetRange | undefined, partySize: number): BudgetRange | undefined {
+  if (!range?.perPerson) {
+    return range;
+  }
+  const size = Math.max(1, partySize);
+  return {
+    min: range.min !== undefined ? range.min * size : undefined,
+    max: range.max !== undefined ? range.max * size : undefined,
+  };
+}
+
+function compareWithRange(total: number, range?: BudgetRange): { status: BudgetStatus; message?: string } {
+  if (!range || (range.min === undefined && range.max === undefined)) {
+    return { status: 'unknown' };
+  }
+  if (range.max !== undefined && total > range.max) {
+    return { status: 'over', message: `预计花费约${total}元，超出预算上限${range.max}元${total - range.max}元` };
+  }
+  if (range.min !== undefined && total < range.min) {
+    return { status: 'under', message: `预计花费约${total}元，低于预算下限${range.min}元，可考虑提升住宿或餐饮标准` };
+  }
+  return { status: 'within' };
+}
+
+/**
+ * 估算行程预算：有结构化行程时按实际地点、餐饮与路线逐日计算，否则按城市基准估算
+ */
+export function estimateBudget(input: BudgetInput): BudgetEstimate {
+  const dayCount = Math.max(1, input.itinerary?.days.length ?? input.days);
+  const rooms = roomsFor(input.partySize);
+  const days: DayBudget[] = [];
+
+  const travel = intercityCost(input);
+  if (travel > 0) {
+    days.push({
+      day: 0,
+      lines: [{ category: 'transport', label: '往返城际交通（高铁估算）', amount: travel }],
+      total: travel,
+    });
+  }
+
+  for (let i = 0; i < dayCount; i++) {
+    const itineraryDay = input.itinerary?.days[i];
+    const dayNumber = itineraryDay?.day ?? i + 1;
+    const baseline = baselineForDay(input, dayNumber);
+    const lines = itineraryDay
+      ? estimateItineraryDay(itineraryDay, input, baseline)
+      : estimateBaselineDay(input, baseline);
+    for (const transfer of (input.transfers ?? []).filter(item => item.day === dayNumber)) {
+      const amount = transferCost(transfer, input.partySize);
+      if (amount > 0) {
+        lines.push({ category: 'transport', label: `${transfer.from} → ${transfer.to}（换城）`, amount });
+      }
+    }
+    // 最后一天不住宿
+    if (i < dayCount - 1) {
+      lines.push({ category: 'lodging', label: `住宿（${rooms}间）`, amount: baseline.lodging * rooms });
+    }
+    days.push({
+      day: dayNumber,
+      lines,
+      total: lines.reduce((sum, line) => sum + line.amount, 0),
+    });
+  }
+
+  const byCategory: Record<BudgetCategory, number> = { lodging: 0, meals: 0, tickets: 0, transport: 0, other: 0 };
+  for (const day of days) {
+    for (const line of day.lines) {
+      byCategory[line.category] += line.amount;
+    }
+  }
+  const total = days.reduce((sum, day) => sum + day.total, 0);
+  const comparison = compareWithRange(total, totalBudgetRange(input.range, input.partySize));
+
+  return {
+    partySize: input.partySize,
+    days,
+    byCategory,
+    total,
+    perPerson: Math.round(total / Math.max(1, input.partySize)),
+    range: input.range,
+    status: comparison.status,
+    message: comparison.message,
+    intercityDistance: input.intercityDistance,
+    returnDistance: input.returnDistance,
+  };
+}
+
+/**
+ * 生成传给大模型的预算约束说明
+ */
+export function buildBudgetConstraint(input: BudgetInput): string {
+  const baseline = getCityBaseline(input.city);
+  const rooms = roomsFor(input.partySize);
+  const parts: string[] = [
+    `住宿约${baseline.lodging}元/间/晚（${rooms}间）`,
+    `餐饮约${baseline.meals}元/人/天`,
+  ];
+  const ticket = averageTicket(input.pois);
+  if (ticket > 0) {
+    parts.push(`候选景点平均门票约${ticket}元/人`);
+  }
+  const travel = intercityCost(input);
+  if (travel > 0) {
+    parts.push(`往返城际交通约${travel}元`);
+  }
+  const transfers = (input.transfers ?? []).reduce((sum, item) => sum + transferCost(item, input.partySize), 0);
+  if (transfers > 0) {
+    parts.push(`途中换城交通约${transfers}元`);
+  }
+
+  const estimate = estimateBudget(input);
+  parts.push(`按常规安排预计总花费约${estimate.total}元`);
+  const range = totalBudgetRange(input.range, input.partySize);
+  if (range?.max !== undefined) {
+    parts.push(`用户总预算上限${range.max}元，请控制总花费不超过上限，预算紧张时优先安排免费或低价景点和平价餐厅`);
+  }
+  if (range?.min !== undefined && range.max === undefined) {
+    parts.push(`用户总预算不低于${range.min}元，可适当安排品质更高的餐厅与体验`);
+  }
+  return parts.join('，');
+}
@@ -0,0 +1,94 @@
+import util from '@ohos.util';
+import type { LlmChatMessage } from '../services/llmService';
+import type { PoiItem, RecommendationRequest, RecommendationResult } from '../services/types';
+
+/**
+ * 粗略估算token数：中文约1字1token，英文和数字按4字符1token
+ */
+export function estimateTokens(text: string): number {
+  let cjk = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) > 0x2e80) {
+      cjk++;
+    }
+  }
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+function estimateMessagesTokens(messages: LlmChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + estimateTokens(message.content) + 4, 0);
+}
+
+/**
+ * 行程对话会话：保存系统提示词、POI上下文和历史轮次，用于多轮调整行程
+ */
+export class ConversationSession {
+  readonly id: string;
+  readonly request: RecommendationRequest;
+  readonly searchCity: string;
+  pois: PoiItem[];
+  result: RecommendationResult;
+  updatedAt: number;
+
+  // 已搜索过的POI关键词，避免调整时重复搜索
+  private searchedKeywords: Set<string>;
+  // [system, 首轮user, assistant, user, assistant, ...]，始终以assistant结尾
+  private messages: LlmChatMessage[];
+
+  constructor(
+    request: RecommendationRequest,
+    searchCity: string,
+    pois: PoiItem[],
+    initialMessages: LlmChatMessage[],
+    reply: string,
+    result: RecommendationResult,
+    searchedKeywords: string[]
+  ) {
+    this.id = util.generateRandomUUID(false);
+    this.request = request;
+    this.searchCity = searchCity;
+    this.pois = pois;
+    this.result = result;
+    this.updatedAt = Date.now();
+    this.searchedKeywords = new Set(searchedKeywords);
+    this.messages = [...initialMessages, { role: 'assistant', content: reply }];
+  }
+
+  get turnCount(): number {
+    return this.messages.filter(m => m.role === 'assistant').length;
+  }
+
+  hasSearched(keywords: string): boolean {
+    return this.searchedKeywords.has(keywords);
+  }
+
+  markSearched(keywords: string): void {
+    this.searchedKeywords.add(keywords);
+  }
+
+  /**
+   * 构建本轮请求消息，超出上下文预算时从最早的历史轮次开始裁剪
+   * 系统提示词、首轮POI上下文和最近一次回复始终保留
+   * @param pending 本轮新的用户消息
+   * @param budgetTokens 可用于输入的token预算
+   */
+  buildMessages(pending: LlmChatMessage, budgetTokens: number): LlmChatMessage[] {
+    const head = this.messages.slice(0, 2);
+    const history = this.messages.slice(2);
+    const fixedCost = estimateMessagesTokens(head) + estimateMessagesTokens([pending]);
+    // 成对移除（assistant, user），保证消息角色交替
+    while (history.length > 1 && fixedCost + estimateMessagesTokens(history) > budgetTokens) {
+      history.splice(0, 2);
+    }
+    return [...head, ...history, pending];
+  }
+
+  /**
+   * 记录一轮成功的调整
+   */
+  appendTurn(userMessage: LlmChatMessage, reply: string, result: RecommendationResult): void {
+    this.messages.push(userMessage, { role: 'assistant', content: reply });
+    this.result = result;
+    this.updatedAt = Date.now();
+  }
+}
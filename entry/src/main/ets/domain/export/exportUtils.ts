@@ -0,0 +1,113 @@
+import { gcj02ToWgs84 } from '../../common/coordinates';
+import { hashText } from '../../common/textHash';
+import type { Itinerary, ItineraryDay, ItinerarySlot } from '../../services/types';
+import { formatDate, parseDateRange } from '../travelDates';
+
+/**
+ * 导出选项
+ */
+export interface ExportOptions {
+  startDate?: string; // 第1天的日期（YYYY-MM-DD），未提供时为导出当天
+  tripId?: string; // 行程标识（如历史记录ID），用于日历日程的UID，未提供时按行程内容生成
+  now?: number; // 导出时间，用于日历的时间戳和KML/GPX的元数据，默认当前时间
+}
+
+/**
+ * WGS-84坐标点
+ */
+export interface GeoPoint {
+  lng: number;
+  lat: number;
+}
+
+// 导出文件标识中使用的应用名
+export const EXPORT_PRODUCT = 'AI旅游推荐';
+// 时段没有结束时间、且无法由下一站推算时的默认时长（分钟）
+const DEFAULT_SLOT_MINUTES = 60;
+
+const TIME_PATTERN = /^(\d{1,2})[:：](\d{2})/;
+
+/**
+ * 出行日期的第1天，如"2025-12-15 至 2025-12-20"取 2025-12-15，"国庆"取假期第一天
+ * 未提供出行日期时使用 now 当天；提供了但无法识别（如"下个月"）时返回null，由调用方提示用户
+ */
+export function exportStartDate(travelDate: string | undefined, now: number = Date.now()): string | null {
+  if (!travelDate?.trim()) {
+    return formatDate(new Date(now));
+  }
+  return parseDateRange(travelDate, new Date(now))?.start ?? null;
+}
+
+/**
+ * 按行程标题和各天地点生成的标识，同一行程重复导出时不变
+ */
+export function itineraryId(itinerary: Itinerary): string {
+  const days = itinerary.days.map(day => `${day.day}:${day.slots.map(slot => slot.name).join('|')}`);
+  return hashText(`${itinerary.title}\n${days.join('\n')}`);
+}
+
+/**
+ * 解析"08:30"形式的时间
+ * @returns 当天的分钟数，无法识别时返回null
+ */
+export function parseTime(time: string | undefined): number | null {
+  const match = time?.trim().match(TIME_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes < 24 * 60 ? minutes : null;
+}
+
+/**
+ * 时段的起止时间（当天的分钟数），无法识别开始时间时返回null
+ * 没有结束时间时到下一站开始为止，最后一站默认1小时，结束时间可能超过24:00
+ */
+export function slotTimeRange(day: ItineraryDay, index: number): [number, number] | null {
+  const slot = day.slots[index];
+  const start = parseTime(slot.time);
+  if (start === null) {
+    return null;
+  }
+  const candidates = [parseTime(slot.endTime), parseTime(day.slots[index + 1]?.time)];
+  const end = candidates.find((value): value is number => value !== null && value > start);
+  return [start, end ?? start + DEFAULT_SLOT_MINUTES];
+}
+
+/**
+ * 高德坐标（"经度,纬度"）转为WGS-84坐标点，坐标缺失或格式错误时返回null
+ */
+export function toGeoPoint(location: string | undefined): GeoPoint | null {
+  const parts = (location ?? '').split(',').map(Number);
+  if (parts.length !== 2 || parts.some(n => !Number.isFinite(n))) {
+    return null;
+  }
+  const [lng, lat] = gcj02ToWgs84(parts[0], parts[1]).split(',').map(Number);
+  return { lng, lat };
+}
+
+/**
+ * 时段的地址文本：优先使用POI地址，多目的地行程补充所在城市
+ */
+export function slotAddress(slot: ItinerarySlot, city?: string): string {
+  if (slot.address) {
+    return city && !slot.address.startsWith(city) ? `${city}${slot.address}` : slot.address;
+  }
+  return city ? `${city} ${slot.name}` : slot.name;
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * 时间戳转为ISO 8601格式的UTC时间，精确到秒
+ */
+export function isoTimestamp(now: number): string {
+  return new Date(now).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
@@ -0,0 +1,194 @@
+import type { ItineraryDay, RecommendationResult } from '../../services/types';
+import { formatLeg } from '../routePlanner';
+import {
+  escapeXml,
+  isoTimestamp,
+  toGeoPoint,
+  EXPORT_PRODUCT,
+  type ExportOptions,
+  type GeoPoint
+} from './exportUtils';
+
+// 路线颜色，KML颜色格式为 aabbggrr（对应 #007DFF）
+const ROUTE_COLOR = 'ffff7d00';
+
+interface GeoPlace {
+  name: string;
+  description: string;
+  point: GeoPoint;
+}
+
+interface GeoRoute {
+  name: string;
+  description: string;
+  points: GeoPlace[];
+}
+
+/**
+ * 一组地点和路线，对应行程中的一天（没有结构化行程时为推荐地点）
+ */
+interface GeoGroup {
+  name: string;
+  places: GeoPlace[];
+  routes: GeoRoute[];
+}
+
+function dayName(day: ItineraryDay): string {
+  return `第${day.day}天${day.city ? `（${day.city}）` : ''}${day.theme ? `：${day.theme}` : ''}`;
+}
+
+/**
+ * 有实际路线时每段路线单独输出，否则按时间顺序连接当天各地点
+ */
+function dayRoutes(day: ItineraryDay, places: GeoPlace[]): GeoRoute[] {
+  const routes: GeoRoute[] = [];
+  for (const leg of day.legs ?? []) {
+    const from = toGeoPoint(leg.origin);
+    const to = toGeoPoint(leg.destination);
+    if (!from || !to) {
+      continue;
+    }
+    const fromName = leg.fromName ?? '起点';
+    const toName = leg.toName ?? '终点';
+    routes.push({
+      name: `${fromName} → ${toName}`,
+      description: formatLeg(leg),
+      points: [{ name: fromName, description: '', point: from }, { name: toName, description: '', point: to }],
+    });
+  }
+  if (routes.length === 0 && places.length > 1) {
+    routes.push({ name: `第${day.day}天路线`, description: places.map(place => place.name).join(' → '), points: places });
+  }
+  return routes;
+}
+
+function collectGroups(result: RecommendationResult): GeoGroup[] {
+  if (!result.itinerary) {
+    const places: GeoPlace[] = [];
+    for (const poi of result.items) {
+      const point = toGeoPoint(poi.location);
+      if (point) {
+        places.push({ name: poi.name, description: poi.address ?? '', point });
+      }
+    }
+    return places.length > 0 ? [{ name: '推荐地点', places, routes: [] }] : [];
+  }
+
+  return result.itinerary.days.map(day => {
+    const places: GeoPlace[] = [];
+    for (const slot of day.slots) {
+      const point = toGeoPoint(slot.location);
+      if (point) {
+        const description = [slot.activity, slot.address].filter((text): text is string => !!text).join('\n');
+        places.push({ name: slot.name, description, point });
+      }
+    }
+    return { name: dayName(day), places, routes: dayRoutes(day, places) };
+  });
+}
+
+function documentTitle(result: RecommendationResult): string {
+  return result.itinerary?.title ?? '旅行推荐';
+}
+
+function kmlCoordinates(point: GeoPoint): string {
+  return `${point.lng.toFixed(6)},${point.lat.toFixed(6)},0`;
+}
+
+/**
+ * 导出为KML：每天一个文件夹，包含各地点的地标和地点之间的路线
+ * 坐标已由高德坐标转换为WGS-84
+ */
+export function exportKml(result: RecommendationResult): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(documentTitle(result))}</name>`,
+  ];
+  if (result.itinerary?.overview) {
+    lines.push(`    <description>${escapeXml(result.itinerary.overview)}</description>`);
+  }
+  lines.push(
+    '    <Style id="route">',
+    '      <LineStyle>',
+    `        <color>${ROUTE_COLOR}</color>`,
+    '        <width>4</width>',
+    '      </LineStyle>',
+    '    </Style>',
+  );
+
+  for (const group of collectGroups(result)) {
+    lines.push('    <Folder>', `      <name>${escapeXml(group.name)}</name>`);
+    for (const place of group.places) {
+      lines.push('      <Placemark>', `        <name>${escapeXml(place.name)}</name>`);
+      if (place.description) {
+        lines.push(`        <description>${escapeXml(place.description)}</description>`);
+      }
+      lines.push(`        <Point><coordinates>${kmlCoordinates(place.point)}</coordinates></Point>`, '      </Placemark>');
+    }
+    for (const route of group.routes) {
+      lines.push(
+        '      <Placemark>',
+        `        <name>${escapeXml(route.name)}</name>`,
+        `        <description>${escapeXml(route.description)}</description>`,
+        '        <styleUrl>#route</styleUrl>',
+        '        <LineString>',
+        '          <tessellate>1</tessellate>',
+        `          <coordinates>${route.points.map(place => kmlCoordinates(place.point)).join(' ')}</coordinates>`,
+        '        </LineString>',
+        '      </Placemark>',
+      );
+    }
+    lines.push('    </Folder>');
+  }
+
+  lines.push('  </Document>', '</kml>');
+  return lines.join('\n') + '\n';
+}
+
+function gpxPoint(tag: string, place: GeoPlace, indent: string, type?: string): string[] {
+  const lines: string[] = [
+    `${indent}<${tag} lat="${place.point.lat.toFixed(6)}" lon="${place.point.lng.toFixed(6)}">`,
+    `${indent}  <name>${escapeXml(place.name)}</name>`,
+  ];
+  if (place.description) {
+    lines.push(`${indent}  <desc>${escapeXml(place.description)}</desc>`);
+  }
+  if (type) {
+    lines.push(`${indent}  <type>${escapeXml(type)}</type>`);
+  }
+  lines.push(`${indent}</${tag}>`);
+  return lines;
+}
+
+/**
+ * 导出为GPX 1.1：各地点为航点（按天分类），地点之间的路线为航线
+ * 坐标已由高德坐标转换为WGS-84
+ */
+export function exportGpx(result: RecommendationResult, options: ExportOptions = {}): string {
+  const groups = collectGroups(result);
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXml(EXPORT_PRODUCT)}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    '  <metadata>',
+    `    <name>${escapeXml(documentTitle(result))}</name>`,
+  ];
+  if (result.itinerary?.overview) {
+    lines.push(`    <desc>${escapeXml(result.itinerary.overview)}</desc>`);
+  }
+  lines.push(`    <time>${isoTimestamp(options.now ?? Date.now())}</time>`, '  </metadata>');
+
+  // GPX要求航点在航线之前
+  groups.forEach(group => group.places.forEach(place => lines.push(...gpxPoint('wpt', place, '  ', group.name))));
+  for (const group of groups) {
+    for (const route of group.routes) {
+      lines.push('  <rte>', `    <name>${escapeXml(route.name)}</name>`, `    <desc>${escapeXml(route.description)}</desc>`);
+      route.points.forEach(place => lines.push(...gpxPoint('rtept', { ...place, description: '' }, '    ')));
+      lines.push('  </rte>');
+    }
+  }
+
+  lines.push('</gpx>');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,156 @@
+import type { RecommendationResult } from '../../services/types';
+import { addDays, formatDate } from '../travelDates';
+import {
+  itineraryId,
+  slotAddress,
+  slotTimeRange,
+  toGeoPoint,
+  EXPORT_PRODUCT,
+  type ExportOptions
+} from './exportUtils';
+
+// 行程时间均为目的地当地时间，国内统一使用东八区
+const TIME_ZONE = 'Asia/Shanghai';
+// 内容行超过75字节时折行（RFC 5545 3.1）
+const MAX_LINE_OCTETS = 75;
+
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIME_ZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0800',
+  'TZOFFSETTO:+0800',
+  'TZNAME:CST',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+function pad(value: number): string {
+  return `${value}`.padStart(2, '0');
+}
+
+/**
+ * 转义文本值中的反斜杠、分号、逗号和换行
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/**
+ * 按UTF-8字节数折行，不拆分多字节字符，续行以空格开头
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const length = utf8Length(char);
+    // 续行开头的空格占1字节
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + length > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += length;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * 日期与当天的分钟数转为本地时间，如 20251215T083000，分钟数超过一天时顺延到次日
+ */
+function localDateTime(date: string, minutes: number): string {
+  const dayOffset = Math.floor(minutes / (24 * 60));
+  const rest = minutes - dayOffset * 24 * 60;
+  const compactDate = addDays(date, dayOffset).replace(/-/g, '');
+  return `${compactDate}T${pad(Math.floor(rest / 60))}${pad(rest % 60)}00`;
+}
+
+function utcDateTime(now: number): string {
+  return new Date(now).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * 导出为iCalendar（.ics）：每个行程地点一个日程，含时区、地点和坐标
+ * 没有结构化行程时只生成空日历
+ */
+export function exportIcs(result: RecommendationResult, options: ExportOptions = {}): string {
+  const now = options.now ?? Date.now();
+  const startDate = options.startDate ?? formatDate(new Date(now));
+  const itinerary = result.itinerary;
+  const stamp = utcDateTime(now);
+  const tripId = options.tripId ?? (itinerary ? itineraryId(itinerary) : '');
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${EXPORT_PRODUCT}//行程导出//ZH`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(itinerary?.title ?? '旅行行程')}`,
+    `X-WR-TIMEZONE:${TIME_ZONE}`,
+    ...VTIMEZONE,
+  ];
+
+  for (const day of itinerary?.days ?? []) {
+    const date = addDays(startDate, day.day - 1);
+    day.slots.forEach((slot, index) => {
+      const description: string[] = [];
+      if (slot.activity) {
+        description.push(slot.activity);
+      }
+      if (slot.reason) {
+        description.push(`推荐理由：${slot.reason}`);
+      }
+      if (slot.transport) {
+        description.push(`交通：${slot.transport}`);
+      }
+      if (day.theme) {
+        description.push(`第${day.day}天：${day.theme}`);
+      }
+
+      lines.push('BEGIN:VEVENT');
+      // UID与出行日期无关，同一行程重复导出（包括改了日期）时日历应用会更新而不是重复添加
+      lines.push(`UID:${tripId}-d${day.day}-s${index + 1}@ai-tour`);
+      lines.push(`DTSTAMP:${stamp}`);
+      const range = slotTimeRange(day, index);
+      if (range) {
+        lines.push(`DTSTART;TZID=${TIME_ZONE}:${localDateTime(date, range[0])}`);
+        lines.push(`DTEND;TZID=${TIME_ZONE}:${localDateTime(date, range[1])}`);
+      } else {
+        // 无法识别时间（如"上午"）时作为全天日程
+        lines.push(`DTSTART;VALUE=DATE:${date.replace(/-/g, '')}`);
+        lines.push(`DTEND;VALUE=DATE:${addDays(date, 1).replace(/-/g, '')}`);
+      }
+      lines.push(`SUMMARY:${escapeText(slot.name)}`);
+      lines.push(`LOCATION:${escapeText(slotAddress(slot, day.city))}`);
+      const point = toGeoPoint(slot.location);
+      if (point) {
+        lines.push(`GEO:${point.lat.toFixed(6)};${point.lng.toFixed(6)}`);
+      }
+      if (description.length > 0) {
+        lines.push(`DESCRIPTION:${escapeText(description.join('\n'))}`);
+      }
+      if (slot.mapUrl) {
+        lines.push(`URL:${slot.mapUrl}`);
+      }
+      lines.push('END:VEVENT');
+    });
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,107 @@
+import type { DayWeather, ItineraryDay, PoiItem, RecommendationResult } from '../../services/types';
+import { formatOutfit, formatRainyAlternative, mealLabel } from '../../services/itineraryParser';
+import { formatTripRoute } from '../multiCityTrip';
+import { formatDayWeather } from '../weatherPlan';
+
+/**
+ * 转义行内文本中的Markdown标记，避免地点名称中的 * _ [ ] 等影响排版
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_\[\]|#])/g, '\\$1').replace(/\r?\n/g, ' ');
+}
+
+function buildDay(day: ItineraryDay, weather?: DayWeather): string[] {
+  const lines: string[] = [
+    '',
+    `## 第${day.day}天${day.city ? ` · ${escapeMarkdown(day.city)}` : ''}${day.theme ? `：${escapeMarkdown(day.theme)}` : ''}`,
+  ];
+  if (weather?.forecast) {
+    lines.push('', `> 🌤️ ${escapeMarkdown(formatDayWeather(weather))}`);
+  }
+  if (day.transfer) {
+    lines.push('', `> 🚄 换城：${escapeMarkdown(day.transfer)}`);
+  }
+  if (day.slots.length > 0) {
+    lines.push('');
+  }
+  for (const slot of day.slots) {
+    const time = slot.endTime ? `${slot.time}–${slot.endTime}` : slot.time;
+    lines.push(`- **${escapeMarkdown(time)} ${escapeMarkdown(slot.name)}**` +
+      (slot.activity ? `：${escapeMarkdown(slot.activity)}` : ''));
+    if (slot.transport) {
+      lines.push(`  - 交通：${escapeMarkdown(slot.transport)}`);
+    }
+    if (slot.reason) {
+      lines.push(`  - 推荐理由：${escapeMarkdown(slot.reason)}`);
+    }
+    if (slot.address) {
+      lines.push(`  - 地址：${escapeMarkdown(slot.address)}`);
+    }
+    if (slot.rainyAlternative) {
+      lines.push(`  - 雨天备选：${escapeMarkdown(formatRainyAlternative(slot.rainyAlternative))}`);
+    }
+    if (slot.mapUrl) {
+      lines.push(`  - [在高德地图中查看](${slot.mapUrl})`);
+    }
+  }
+  if (day.meals.length > 0) {
+    lines.push('', '**餐饮**', '');
+    day.meals.forEach(meal => {
+      lines.push(`- ${mealLabel(meal.type)}：${escapeMarkdown(meal.name)}${meal.note ? `（${escapeMarkdown(meal.note)}）` : ''}`);
+    });
+  }
+  if (day.tips.length > 0) {
+    lines.push('', '**提示**', '');
+    day.tips.forEach(tip => lines.push(`- ${escapeMarkdown(tip)}`));
+  }
+  if (day.outfit) {
+    lines.push('', `**穿搭**：${escapeMarkdown(formatOutfit(day.outfit))}`);
+  }
+  return lines;
+}
+
+function buildPoiList(items: PoiItem[]): string[] {
+  const lines: string[] = ['', '## 推荐地点', ''];
+  items.forEach((poi, index) => {
+    const rating = poi.rating ? `（评分${poi.rating}）` : '';
+    lines.push(`${index + 1}. **${escapeMarkdown(poi.name)}**${rating}${poi.address ? `：${escapeMarkdown(poi.address)}` : ''}`);
+  });
+  return lines;
+}
+
+/**
+ * 导出为Markdown：标题、路线、每日安排、预算与出行建议
+ * 没有结构化行程时使用推荐文本并附上推荐地点列表
+ */
+export function exportMarkdown(result: RecommendationResult): string {
+  const itinerary = result.itinerary;
+  if (!itinerary) {
+    const lines: string[] = ['# 旅行推荐', '', result.summary.trim()];
+    if (result.items.length > 0) {
+      lines.push(...buildPoiList(result.items));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  const lines: string[] = [`# ${escapeMarkdown(itinerary.title)}`];
+  if (itinerary.overview) {
+    lines.push('', `> ${escapeMarkdown(itinerary.overview)}`);
+  }
+  if (result.stops && result.stops.length > 1) {
+    lines.push('', `**路线**：${escapeMarkdown(formatTripRoute(result.stops))}`);
+  }
+  itinerary.days.forEach(day => lines.push(...buildDay(day, result.dayWeather?.find(item => item.day === day.day))));
+
+  if (itinerary.budget && itinerary.budget.items.length > 0) {
+    lines.push('', '## 预算明细', '', '| 类别 | 金额（元） | 说明 |', '| --- | ---: | --- |');
+    itinerary.budget.items.forEach(item => {
+      lines.push(`| ${escapeMarkdown(item.category)} | ${item.amount} | ${escapeMarkdown(item.note ?? '')} |`);
+    });
+    lines.push(`| **合计** | **${itinerary.budget.total}** | |`);
+  }
+  if (itinerary.tips.length > 0) {
+    lines.push('', '## 出行建议', '');
+    itinerary.tips.forEach(tip => lines.push(`- ${escapeMarkdown(tip)}`));
+  }
+  return lines.join('\n') + '\n';
+}
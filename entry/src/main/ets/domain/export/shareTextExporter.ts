@@ -0,0 +1,60 @@
+import type { ItineraryDay, RecommendationResult } from '../../services/types';
+import { mealLabel } from '../../services/itineraryParser';
+import { formatTripRoute } from '../multiCityTrip';
+
+/**
+ * 去掉大模型文本中的Markdown标记，聊天软件中按原样显示
+ */
+function stripMarkdown(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^#{1,6}\s*/, '').replace(/\*\*(.+?)\*\*/g, '$1').replace(/^\s*[-*]\s+/, '· '))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function buildDay(day: ItineraryDay): string[] {
+  const lines: string[] = [`📅 第${day.day}天${day.city ? `·${day.city}` : ''}${day.theme ? `：${day.theme}` : ''}`];
+  if (day.transfer) {
+    lines.push(`🚄 ${day.transfer}`);
+  }
+  day.slots.forEach(slot => {
+    lines.push(`${slot.time} ${slot.name}${slot.activity ? `（${slot.activity}）` : ''}`);
+  });
+  if (day.meals.length > 0) {
+    lines.push(`🍽 ${day.meals.map(meal => `${mealLabel(meal.type)}：${meal.name}`).join('；')}`);
+  }
+  return lines;
+}
+
+/**
+ * 导出为纯文本，适合粘贴到微信等聊天软件：不含Markdown标记，每天只列时间、地点和餐饮
+ */
+export function exportShareText(result: RecommendationResult): string {
+  const itinerary = result.itinerary;
+  if (!itinerary) {
+    const lines: string[] = [stripMarkdown(result.summary)];
+    if (result.items.length > 0) {
+      lines.push('', `📍 推荐地点：${result.items.slice(0, 10).map(poi => poi.name).join('、')}`);
+    }
+    return lines.join('\n');
+  }
+
+  const lines: string[] = [`【${itinerary.title}】`];
+  if (result.stops && result.stops.length > 1) {
+    lines.push(`🧭 ${formatTripRoute(result.stops)}`);
+  }
+  if (itinerary.overview) {
+    lines.push(itinerary.overview);
+  }
+  itinerary.days.forEach(day => lines.push('', ...buildDay(day)));
+  const total = result.budgetEstimate?.total ?? itinerary.budget?.total;
+  if (total) {
+    lines.push('', `💰 预算约${total}元`);
+  }
+  if (itinerary.tips.length > 0) {
+    lines.push('', `💡 ${itinerary.tips.join('；')}`);
+  }
+  return lines.join('\n');
+}
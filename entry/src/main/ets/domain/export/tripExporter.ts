@@ -0,0 +1,95 @@
+import type { RecommendationResult } from '../../services/types';
+import { exportIcs } from './icsExporter';
+import { exportMarkdown } from './markdownExporter';
+import { exportKml, exportGpx } from './geoExporter';
+import { exportShareText } from './shareTextExporter';
+import type { ExportOptions } from './exportUtils';
+import { formatDate } from '../travelDates';
+
+export { exportIcs } from './icsExporter';
+export { exportMarkdown } from './markdownExporter';
+export { exportKml, exportGpx } from './geoExporter';
+export { exportShareText } from './shareTextExporter';
+export { exportStartDate, type ExportOptions } from './exportUtils';
+
+export type ExportFormat = 'text' | 'markdown' | 'ics' | 'kml' | 'gpx';
+
+/**
+ * 导出结果
+ */
+export interface ExportedFile {
+  format: ExportFormat;
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  text: { label: '纯文本（聊天分享）', extension: 'txt', mimeType: 'text/plain' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  ics: { label: '日历（ICS）', extension: 'ics', mimeType: 'text/calendar' },
+  kml: { label: '地图标注（KML）', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  gpx: { label: '导航路线（GPX）', extension: 'gpx', mimeType: 'application/gpx+xml' },
+};
+
+export function exportFormatLabel(format: ExportFormat): string {
+  return EXPORT_FORMATS[format].label;
+}
+
+/**
+ * 当前结果可用的导出格式：日历需要结构化行程，KML/GPX需要带坐标的地点
+ */
+export function availableExportFormats(result: RecommendationResult): ExportFormat[] {
+  const formats: ExportFormat[] = ['text', 'markdown'];
+  if (result.itinerary && result.itinerary.days.some(day => day.slots.length > 0)) {
+    formats.push('ics');
+  }
+  const located = result.itinerary
+    ? result.itinerary.days.some(day => day.slots.some(slot => !!slot.location))
+    : result.items.some(poi => !!poi.location);
+  if (located) {
+    formats.push('kml', 'gpx');
+  }
+  return formats;
+}
+
+/**
+ * 文件名：行程标题去掉文件系统不允许的字符，加上第1天的日期
+ */
+function exportFileName(result: RecommendationResult, startDate: string, extension: string): string {
+  const title = (result.itinerary?.title ?? '旅行推荐').replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 40);
+  return `${title}_${startDate}.${extension}`;
+}
+
+/**
+ * 按指定格式导出推荐结果
+ */
+export function exportTrip(result: RecommendationResult, format: ExportFormat, options: ExportOptions = {}): ExportedFile {
+  const now = options.now ?? Date.now();
+  const startDate = options.startDate ?? formatDate(new Date(now));
+  let content: string;
+  switch (format) {
+    case 'ics':
+      content = exportIcs(result, { startDate, now, tripId: options.tripId });
+      break;
+    case 'markdown':
+      content = exportMarkdown(result);
+      break;
+    case 'kml':
+      content = exportKml(result);
+      break;
+    case 'gpx':
+      content = exportGpx(result, { startDate, now });
+      break;
+    default:
+      content = exportShareText(result);
+  }
+  const info = EXPORT_FORMATS[format];
+  return { format, fileName: exportFileName(result, startDate, info.extension), mimeType: info.mimeType, content };
+}
@@ -0,0 +1,265 @@
+import type { BudgetRange, DateRange, InterestId, RecommendationRequest } from '../services/types';
+import { parseBudgetRange, parseCompanions } from './travelRequest';
+import { findPlaces, lookupPlace, type PlaceMention } from './placeDictionary';
+import { dateRangeDays, parseDateRange } from './travelDates';
+
+/**
+ * 从自然语言查询中解析出的旅行意图，未提及的字段为空
+ */
+export interface TravelIntent {
+  destination?: string; // 目的地（城市名或景区名）
+  destinationCity?: string; // 目的地所在城市，用于POI搜索
+  departure?: string;
+  days?: number;
+  dateRange?: DateRange;
+  budget?: BudgetRange;
+  partySize?: number;
+  companions?: string; // 同行关系，如"情侣/朋友"
+  interests: InterestId[];
+  categories: string[]; // 兴趣偏好之外明确提到的地点类型（高德搜索关键词），如"咖啡厅"
+  nearby: boolean; // 是否为当前位置附近的本地查询，如"附近有什么咖啡店"、"今天吃什么"
+}
+
+// 兴趣偏好的识别规则，包含表单中的兴趣名称
+const INTEREST_PATTERNS: Array<{ id: InterestId; pattern: RegExp }> = [
+  { id: 'food', pattern: /美食|吃什么|好吃|餐厅|小吃|饭店|特色菜|吃货/ },
+  { id: 'nature', pattern: /自然风光|自然|风景|山水|湖泊|草原|海边/ },
+  { id: 'citywalk', pattern: /城市漫步|citywalk|city walk|老街|街区|压马路/i },
+  { id: 'family', pattern: /亲子|带娃|遛娃|孩子|小朋友|儿童/ },
+  { id: 'adventure', pattern: /小众冒险|冒险|探险|秘境|小众景点/ },
+  { id: 'drive', pattern: /自驾|开车|租车/ },
+  { id: 'hiking', pattern: /徒步|远足|露营/ },
+  { id: 'climbing', pattern: /爬山|登山/ },
+  { id: 'shopping', pattern: /商场逛街|购物|逛街|商场|买买买/ },
+];
+
+// 兴趣偏好之外的地点类型
+const CATEGORY_PATTERNS: Array<{ pattern: RegExp; keywords: string }> = [
+  { pattern: /咖啡/, keywords: '咖啡厅' },
+  { pattern: /茶馆|喝茶|下午茶/, keywords: '茶馆' },
+  { pattern: /酒吧|小酒馆|夜生活/, keywords: '酒吧' },
+  { pattern: /夜市/, keywords: '夜市' },
+  { pattern: /博物馆|展览|美术馆/, keywords: '博物馆|美术馆' },
+  { pattern: /寺|庙|古镇|古迹/, keywords: '寺庙|古镇|名胜古迹' },
+  { pattern: /温泉/, keywords: '温泉' },
+];
+
+// 当前位置附近的本地查询
+const NEARBY_PATTERN = /附近|周边|周围|身边|就近|离我|今天吃什么|中午吃什么|晚上吃什么|吃点什么/;
+
+// 同行关系关键词及隐含的人数
+const COMPANION_PATTERNS: Array<{ pattern: RegExp; label: string; size?: number }> = [
+  { pattern: /独自|一个人|独行|solo/i, label: '独自', size: 1 },
+  { pattern: /情侣|对象|夫妻|两口子|蜜月/, label: '情侣', size: 2 },
+  { pattern: /闺蜜|朋友|同学/, label: '朋友' },
+  { pattern: /父母|爸妈|老人/, label: '父母' },
+  { pattern: /家人|全家|一家/, label: '家人' },
+  { pattern: /同事|团建/, label: '同事' },
+];
+
+// 不能作为目的地的词，出现在"去/到"之后时忽略
+const NON_PLACE_WORDS = /^(哪|附近|周边|外地|外面|旅游|旅行|玩|吃|看看|逛逛|度假)/;
+
+const CN_DIGITS: Record<string, number> = {
+  '零': 0, '一': 1, '二': 2, '两': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
+};
+
+const NUMBER = '\\d+|[零一二两三四五六七八九十]+';
+
+/**
+ * 解析阿拉伯数字或不超过九十九的中文数字，如"3"、"两"、"十二"
+ */
+export function parseCount(text: string): number | undefined {
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+  if (text.length === 1 && CN_DIGITS[text] !== undefined) {
+    return CN_DIGITS[text];
+  }
+  const match = text.match(/^([一二两三四五六七八九])?十([一二三四五六七八九])?$/);
+  if (!match) {
+    return undefined;
+  }
+  const tens = match[1] !== undefined ? CN_DIGITS[match[1]] : 1;
+  const ones = match[2] !== undefined ? CN_DIGITS[match[2]] : 0;
+  return tens * 10 + ones;
+}
+
+/**
+ * 目的地与出发地：优先使用地名词典，按"从X出发"、"从X到Y"区分出发地
+ * 词典中没有的地名，退回到"去X玩"、"从X出发"等句式提取
+ */
+function parsePlaces(query: string, intent: TravelIntent): void {
+  const isDeparture = (mention: PlaceMention): boolean => {
+    const before = query.substring(0, mention.index).replace(/\s+$/, '');
+    const after = query.substring(mention.index + mention.length).replace(/^\s+/, '');
+    return before.endsWith('从') || before.endsWith('由') || /^(出发|启程|动身)/.test(after);
+  };
+
+  for (const mention of findPlaces(query)) {
+    const entry = mention.entry;
+    const name = entry.kind === 'city' ? entry.city : entry.name;
+    if (isDeparture(mention)) {
+      intent.departure = intent.departure ?? entry.city;
+    } else if (!intent.destination) {
+      intent.destination = name;
+      intent.destinationCity = entry.city;
+    }
+  }
+
+  if (!intent.departure) {
+    const match = query.match(/从\s*([一-龥]+?)\s*(?:市)?\s*(?:出发|启程|到|去|飞)/);
+    if (match) {
+      intent.departure = match[1];
+    }
+  }
+  if (!intent.destination) {
+    const match = query.match(
+      /(?:去|到|前往)\s*([一-龥]+?)\s*(?:市)?\s*(?:玩|旅游|旅行|度假|逛|看|拍|吃|住|过|\d|[一二两三四五六七八九十]+[天日]|[，,。！!？?\s]|$)/);
+    if (match && !NON_PLACE_WORDS.test(match[1]) && match[1] !== intent.departure) {
+      intent.destination = match[1];
+      intent.destinationCity = lookupPlace(match[1])?.city ?? match[1];
+    }
+  }
+}
+
+/**
+ * 查找"数字+单位"形式的数量，跳过"第二天"这类序数
+ */
+function matchCount(query: string, units: string): number | undefined {
+  const pattern = new RegExp(`(第)?\\s*(${NUMBER})\\s*(?:${units})`, 'g');
+  let match = pattern.exec(query);
+  while (match !== null) {
+    if (!match[1]) {
+      return parseCount(match[2]);
+    }
+    match = pattern.exec(query);
+  }
+  return undefined;
+}
+
+/**
+ * 天数："玩3天"、"三日游"、"两天一夜"、"住两晚"，不含"第二天"
+ */
+function parseDays(query: string): number | undefined {
+  const days = matchCount(query, '天|日游|日行');
+  if (days !== undefined) {
+    return days;
+  }
+  const nights = matchCount(query, '晚|夜');
+  return nights !== undefined ? nights + 1 : undefined;
+}
+
+/**
+ * 人均预算："人均预算500"、"预算人均2000"、"每人1000以内"、"预算500元/人"
+ */
+function markPerPerson(range: BudgetRange | undefined, perPerson: boolean): BudgetRange | undefined {
+  if (range && perPerson) {
+    range.perPerson = true;
+  }
+  return range;
+}
+
+/**
+ * 预算："预算3000-5000元"、"5000以内"、"1万左右"，提到人均时按人均预算记录
+ */
+function parseBudget(query: string): BudgetRange | undefined {
+  const labeled = query.match(
+    /(人均|每人)?\s*(?:预算|花费|经费|费用)\s*(?:大概|大约|约|在|为|是|控制在)?\s*(人均|每人)?\s*([^，,。；;！!？?]+)/);
+  if (labeled) {
+    const range = parseBudgetRange(labeled[3]);
+    if (range) {
+      return markPerPerson(range, !!labeled[1] || !!labeled[2] || /[/每]人/.test(labeled[3]));
+    }
+  }
+  const bare = query.match(/(人均|每人)?\s*(\d+(?:\.\d+)?\s*[万千kK]?)\s*(?:元|块)?\s*(?:以内|以下|之内|左右|以上)/);
+  return bare ? markPerPerson(parseBudgetRange(bare[0]), !!bare[1]) : undefined;
+}
+
+/**
+ * 同行人数与关系："2人 (情侣/朋友)"、"两个人"、"3个大人2个小孩"、"一家三口"、"带孩子"
+ */
+function parseParty(query: string, intent: TravelIntent): void {
+  const family = query.match(/一家([三四五六七八九])口/);
+  if (family) {
+    intent.partySize = CN_DIGITS[family[1]];
+  }
+
+  const formInput = parseCompanions(query);
+  if (intent.partySize === undefined) {
+    intent.partySize = formInput.partySize;
+  }
+  if (intent.partySize === undefined) {
+    const match = query.match(new RegExp(`(${NUMBER})\\s*\\+?\\s*(?:个|位|名)?\\s*(?:人|大人|成人)(?!均)`));
+    if (match) {
+      // "3个大人2个小孩"：大人和孩子一起计入人数
+      const children = query.match(new RegExp(`(${NUMBER})\\s*(?:个|位|名)?\\s*(?:小孩|孩子|儿童|小朋友|宝宝|娃)`));
+      const adults = parseCount(match[1]);
+      intent.partySize = adults !== undefined && children ? adults + (parseCount(children[1]) ?? 0) : adults;
+    }
+  }
+
+  if (formInput.companions) {
+    intent.companions = formInput.companions;
+  } else {
+    // "女朋友"不应同时算作"朋友"
+    const text = query.replace(/[男女]朋友/g, '对象');
+    const labels = COMPANION_PATTERNS.filter(item => item.pattern.test(text));
+    if (labels.length > 0) {
+      intent.companions = labels.map(item => item.label).join('/');
+      if (intent.partySize === undefined) {
+        intent.partySize = labels.find(item => item.size !== undefined)?.size;
+      }
+    }
+  }
+}
+
+/**
+ * 解析旅行查询，如"我想去成都玩3天，从上海出发，喜欢美食、自然风光，2人 (情侣/朋友)，预算3000-5000元"
+ * @param now 解析"明天"、"周末"等相对日期的基准时间
+ */
+export function parseTravelIntent(query: string, now: Date = new Date()): TravelIntent {
+  const text = query.trim();
+  const intent: TravelIntent = { interests: [], categories: [], nearby: false };
+  if (!text) {
+    return intent;
+  }
+
+  parsePlaces(text, intent);
+  intent.days = parseDays(text);
+  intent.dateRange = parseDateRange(text, now, intent.days);
+  intent.budget = parseBudget(text);
+  parseParty(text, intent);
+  intent.interests = INTEREST_PATTERNS.filter(item => item.pattern.test(text)).map(item => item.id);
+  intent.categories = CATEGORY_PATTERNS.filter(item => item.pattern.test(text)).map(item => item.keywords);
+  // 提到了要去的目的地时按目的地搜索，如"去杭州西湖附近住两天"
+  intent.nearby = NEARBY_PATTERN.test(text) && !intent.destination;
+  return intent;
+}
+
+/**
+ * 用解析出的意图补全请求中缺失的字段，请求中已有的结构化字段优先
+ * 目的地为景区时，city 改为景区所在城市以便POI搜索
+ */
+export function applyTravelIntent(request: RecommendationRequest, intent: TravelIntent): RecommendationRequest {
+  const merged: RecommendationRequest = { ...request };
+  if (!merged.destination && intent.destination) {
+    merged.destination = intent.destination;
+    merged.city = intent.destinationCity ?? intent.destination;
+  } else if (merged.destination && merged.destination === intent.destination && intent.destinationCity) {
+    merged.city = intent.destinationCity;
+  }
+  merged.departure = merged.departure ?? intent.departure;
+  if (!merged.travelDate && intent.dateRange) {
+    merged.travelDate = intent.dateRange.start;
+    merged.dateRange = intent.dateRange;
+  }
+  merged.travelDays = merged.travelDays ?? intent.days ?? (merged.dateRange?.end ? dateRangeDays(merged.dateRange) : undefined);
+  merged.partySize = merged.partySize ?? intent.partySize;
+  merged.companions = merged.companions ?? intent.companions;
+  merged.budget = merged.budget ?? intent.budget;
+  if ((!merged.interests || merged.interests.length === 0) && intent.interests.length > 0) {
+    merged.interests = intent.interests;
+  }
+  return merged;
+}
@@ -10,7 +10,7 @@ export const MOCK_POIS: PoiItem[] = [
     location: '118.778074,32.057236',
     city: '南京',
     distance: 500,
-    score: 4.8,
+    rating: 4.8,
     tel: '025-12345678',
   },
   {
@@ -19,7 +19,7 @@ export const MOCK_POIS: PoiItem[] = [
     location: '118.779074,32.058236',
     city: '南京',
     distance: 800,
-    score: 4.7,
+    rating: 4.7,
     tel: '025-87654321',
   },
   {
@@ -28,7 +28,7 @@ export const MOCK_POIS: PoiItem[] = [
     location: '118.780074,32.059236',
     city: '南京',
     distance: 1200,
-    score: 4.6,
+    rating: 4.6,
   },
   {
     name: '天安门广场',
@@ -36,7 +36,7 @@ export const MOCK_POIS: PoiItem[] = [
     location: '116.397128,39.903738',
     city: '北京',
     distance: 0,
-    score: 4.9,
+    rating: 4.9,
   },
   {
     name: '故宫博物院',
@@ -44,7 +44,7 @@ export const MOCK_POIS: PoiItem[] = [
     location: '116.397026,39.918058',
     city: '北京',
     distance: 500,
-    score: 4.9,
+    rating: 4.9,
   },
   {
     name: '全聚德烤鸭店',
@@ -52,7 +52,7 @@ export const MOCK_POIS: PoiItem[] = [
     location: '116.395128,39.904738',
     city: '北京',
     distance: 800,
-    score: 4.7,
+    rating: 4.7,
     tel: '010-65112418',
   },
 ];
@@ -0,0 +1,121 @@
+import type {
+  IntercityTransfer,
+  Itinerary,
+  RecommendationRequest,
+  TripStopResult
+} from '../services/types';
+import { lookupPlace } from './placeDictionary';
+
+/**
+ * 多目的地行程：各站信息与相邻两站之间的城际交通
+ */
+export interface TripPlan {
+  stops: TripStopResult[];
+  transfers: IntercityTransfer[];
+}
+
+/**
+ * 解析请求中的多目的地行程，分配各站天数并计算抵达日
+ * 未填写天数的站点平分剩余天数（每站至少1天，余数优先分给靠前的站点）
+ * @returns 有效站点少于两个时返回空数组，按单目的地处理
+ */
+export function resolveTripStops(request: RecommendationRequest): TripStopResult[] {
+  const stops = (request.stops ?? [])
+    .map(stop => ({ destination: stop.destination.trim(), days: stop.days }))
+    .filter(stop => stop.destination.length > 0);
+  if (stops.length < 2) {
+    return [];
+  }
+
+  const fixedDays = stops.reduce((sum, stop) => sum + (stop.days && stop.days > 0 ? stop.days : 0), 0);
+  const openStops = stops.filter(stop => !stop.days || stop.days <= 0).length;
+  const remaining = Math.max(openStops, (request.travelDays ?? 0) - fixedDays);
+  const share = openStops > 0 ? Math.floor(remaining / openStops) : 0;
+  let extra = openStops > 0 ? remaining - share * openStops : 0;
+
+  let startDay = 1;
+  return stops.map(stop => {
+    let days = stop.days && stop.days > 0 ? Math.floor(stop.days) : share;
+    if (!stop.days || stop.days <= 0) {
+      if (extra > 0) {
+        days++;
+        extra--;
+      }
+      days = Math.max(1, days);
+    }
+    const result: TripStopResult = {
+      destination: stop.destination,
+      city: lookupPlace(stop.destination)?.city ?? stop.destination,
+      startDay,
+      days,
+    };
+    startDay += days;
+    return result;
+  });
+}
+
+export function tripDays(stops: TripStopResult[]): number {
+  return stops.reduce((sum, stop) => sum + stop.days, 0);
+}
+
+/**
+ * 查找某天所在的站点，超出总天数时视为最后一站
+ */
+export function stopForDay(stops: TripStopResult[], day: number): TripStopResult | undefined {
+  return stops.find(stop => day >= stop.startDay && day < stop.startDay + stop.days) ?? stops[stops.length - 1];
+}
+
+function dayRangeLabel(stop: TripStopResult): string {
+  return stop.days > 1 ? `第${stop.startDay}-${stop.startDay + stop.days - 1}天` : `第${stop.startDay}天`;
+}
+
+/**
+ * 行程路线描述，如"成都（第1-3天）→ 重庆（第4-5天）→ 西安（第6-7天）"
+ */
+export function formatTripRoute(stops: TripStopResult[]): string {
+  return stops.map(stop => `${stop.destination}（${dayRangeLabel(stop)}）`).join(' → ');
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) {
+    return `${minutes}分钟`;
+  }
+  const rest = minutes % 60;
+  return `${Math.floor(minutes / 60)}小时${rest > 0 ? `${rest}分钟` : ''}`;
+}
+
+/**
+ * 城际交通描述，如"成都 → 重庆：公共交通约1小时40分钟（308.2公里，约154元），乘坐G8502次（成都东 → 重庆北）"
+ * 没有规划到路线时给出直线距离
+ */
+export function formatTransfer(transfer: IntercityTransfer): string {
+  const route = `${transfer.from} → ${transfer.to}`;
+  const leg = transfer.leg;
+  if (leg) {
+    const mode = leg.mode === 'driving' ? '自驾' : '公共交通';
+    const cost = leg.cost ? `，约${leg.cost}元` : '';
+    const rides = leg.steps.filter(step => step.startsWith('乘坐')).slice(0, 2);
+    return `${route}：${mode}约${formatDuration(leg.duration)}（${(leg.distance / 1000).toFixed(1)}公里${cost}）` +
+      (rides.length > 0 ? `，${rides.join('，')}` : '');
+  }
+  if (transfer.distance) {
+    return `${route}：直线距离约${Math.round(transfer.distance / 1000)}公里`;
+  }
+  return route;
+}
+
+/**
+ * 为行程每天补充所在城市，换城当天大模型未给出交通安排时使用规划的城际交通
+ */
+export function annotateItineraryStops(itinerary: Itinerary, trip: TripPlan): void {
+  for (const day of itinerary.days) {
+    if (!day.city) {
+      day.city = stopForDay(trip.stops, day.day)?.destination;
+    }
+    const transfer = trip.transfers.find(item => item.day === day.day);
+    if (transfer && !day.transfer) {
+      day.transfer = formatTransfer(transfer);
+    }
+  }
+}
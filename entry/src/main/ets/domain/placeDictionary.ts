@@ -0,0 +1,109 @@
+/**
+ * 地名词典：用于从自然语言查询中识别目的地与出发地
+ */
+export interface PlaceEntry {
+  name: string; // 查询中出现的名称
+  city: string; // 用于高德POI搜索的城市名
+  kind: 'city' | 'scenic';
+}
+
+// 常见城市（直辖市、省会、热门旅游城市及特别行政区）
+const CITIES: string[] = [
+  '北京', '上海', '天津', '重庆', '香港', '澳门',
+  '石家庄', '太原', '呼和浩特', '沈阳', '长春', '哈尔滨', '南京', '杭州', '合肥', '福州',
+  '南昌', '济南', '郑州', '武汉', '长沙', '广州', '南宁', '海口', '成都', '贵阳',
+  '昆明', '拉萨', '西安', '兰州', '西宁', '银川', '乌鲁木齐', '台北',
+  '深圳', '苏州', '无锡', '常州', '扬州', '镇江', '南通', '徐州', '宁波', '温州',
+  '绍兴', '嘉兴', '湖州', '舟山', '金华', '台州', '丽水', '衢州', '黄山', '安庆',
+  '厦门', '泉州', '漳州', '南平', '武夷山', '景德镇', '九江', '上饶', '赣州',
+  '青岛', '烟台', '威海', '潍坊', '淄博', '济宁', '泰安', '临沂', '日照', '东营',
+  '洛阳', '开封', '安阳', '宜昌', '十堰', '襄阳', '恩施', '张家界', '岳阳', '衡阳',
+  '湘西', '郴州', '株洲', '珠海', '佛山', '东莞', '中山', '惠州', '汕头', '潮州',
+  '湛江', '韶关', '桂林', '北海', '柳州', '三亚', '万宁', '乐山', '绵阳', '宜宾',
+  '阿坝', '甘孜', '遵义', '安顺', '黔东南', '大理', '丽江', '西双版纳', '香格里拉',
+  '腾冲', '普洱', '林芝', '日喀则', '大同', '平遥', '晋中', '忻州', '秦皇岛', '承德',
+  '保定', '唐山', '张家口', '大连', '丹东', '延边', '吉林', '漠河', '呼伦贝尔',
+  '鄂尔多斯', '阿尔山', '敦煌', '酒泉', '张掖', '嘉峪关', '天水', '中卫', '喀什',
+  '伊犁', '阿勒泰', '吐鲁番', '高雄', '台中', '台南',
+];
+
+// 景区及其所在城市
+const SCENIC_AREAS: Array<[string, string]> = [
+  ['九寨沟', '阿坝藏族羌族自治州'], ['峨眉山', '乐山'], ['青城山', '成都'], ['都江堰', '成都'],
+  ['稻城亚丁', '甘孜藏族自治州'], ['泰山', '泰安'], ['华山', '渭南'], ['衡山', '衡阳'],
+  ['恒山', '大同'], ['嵩山', '郑州'], ['少林寺', '郑州'], ['庐山', '九江'], ['婺源', '上饶'],
+  ['武当山', '十堰'], ['五台山', '忻州'], ['普陀山', '舟山'], ['千岛湖', '杭州'], ['西湖', '杭州'],
+  ['乌镇', '嘉兴'], ['西塘', '嘉兴'], ['周庄', '苏州'], ['同里', '苏州'], ['莫干山', '湖州'],
+  ['雁荡山', '温州'], ['鼓浪屿', '厦门'], ['凤凰古城', '湘西土家族苗族自治州'],
+  ['平遥古城', '晋中'], ['阳朔', '桂林'], ['洱海', '大理'], ['玉龙雪山', '丽江'],
+  ['泸沽湖', '丽江'], ['长白山', '延边朝鲜族自治州'], ['青海湖', '海北藏族自治州'],
+  ['茶卡盐湖', '海西蒙古族藏族自治州'], ['喀纳斯', '阿勒泰'], ['布达拉宫', '拉萨'],
+  ['兵马俑', '西安'], ['故宫', '北京'], ['颐和园', '北京'], ['八达岭', '北京'], ['长城', '北京'],
+  ['外滩', '上海'], ['迪士尼', '上海'], ['中山陵', '南京'], ['黄果树', '安顺'],
+  ['梵净山', '铜仁'], ['天门山', '张家界'], ['黄龙', '阿坝藏族羌族自治州'], ['涠洲岛', '北海'],
+  ['蜈支洲岛', '三亚'], ['亚龙湾', '三亚'],
+];
+
+// 城市别称
+const CITY_ALIASES: Array<[string, string]> = [
+  ['帝都', '北京'], ['魔都', '上海'], ['羊城', '广州'], ['鹏城', '深圳'], ['蓉城', '成都'],
+  ['山城', '重庆'], ['江城', '武汉'], ['泉城', '济南'], ['春城', '昆明'], ['冰城', '哈尔滨'],
+  ['鹭岛', '厦门'], ['星城', '长沙'], ['金陵', '南京'],
+];
+
+function buildEntries(): PlaceEntry[] {
+  const entries: PlaceEntry[] = [];
+  const seen = new Set<string>();
+  const add = (entry: PlaceEntry) => {
+    if (!seen.has(entry.name)) {
+      seen.add(entry.name);
+      entries.push(entry);
+    }
+  };
+  CITIES.forEach(name => add({ name, city: name, kind: 'city' }));
+  SCENIC_AREAS.forEach(([name, city]) => add({ name, city, kind: 'scenic' }));
+  CITY_ALIASES.forEach(([name, city]) => add({ name, city, kind: 'city' }));
+  // 长名称优先，避免"西湖"之类的短词截断更长的地名
+  return entries.sort((a, b) => b.name.length - a.name.length);
+}
+
+const PLACE_ENTRIES: PlaceEntry[] = buildEntries();
+
+/**
+ * 查询中识别到的地名
+ */
+export interface PlaceMention {
+  entry: PlaceEntry;
+  index: number; // 在查询中的起始位置
+  length: number; // 匹配长度（包含"市"等后缀）
+}
+
+/**
+ * 按出现顺序找出查询中的所有地名，同一位置取最长匹配，结果互不重叠
+ */
+export function findPlaces(text: string): PlaceMention[] {
+  const mentions: PlaceMention[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const entry = PLACE_ENTRIES.find(candidate => text.startsWith(candidate.name, index));
+    if (!entry) {
+      index++;
+      continue;
+    }
+    let length = entry.name.length;
+    if (entry.kind === 'city' && text.charAt(index + length) === '市') {
+      length++;
+    }
+    mentions.push({ entry, index, length });
+    index += length;
+  }
+  return mentions;
+}
+
+/**
+ * 按名称查找地名，支持带"市"后缀
+ */
+export function lookupPlace(name: string): PlaceEntry | undefined {
+  const trimmed = name.trim().replace(/市$/, '');
+  return PLACE_ENTRIES.find(entry => entry.name === trimmed);
+}
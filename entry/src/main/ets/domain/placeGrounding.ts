@@ -0,0 +1,182 @@
+import type {
+  Itinerary,
+  ItineraryMeal,
+  ItinerarySlot,
+  PoiItem,
+  RainyAlternative
+} from '../services/types';
+
+// 名称相似度达到该值时视为同一地点
+const MATCH_THRESHOLD = 0.6;
+// 一方包含另一方时，较短名称至少占较长名称的比例，否则多出的部分需为通用后缀（如"西湖"与"西湖银泰"不算同一地点）
+const CONTAINMENT_MIN_SHARE = 0.6;
+const GENERIC_SUFFIXES = [
+  '博物院', '博物馆', '纪念馆', '美术馆', '公园', '景区', '风景区', '风景名胜区', '旅游区', '度假区',
+  '古镇', '古城', '遗址', '广场', '步行街', '老街', '古街',
+];
+
+type GroundedPlace = ItinerarySlot | ItineraryMeal | RainyAlternative;
+
+/**
+ * 行程中提到的一个地点
+ */
+export interface PlaceMention {
+  name: string;
+  day: number;
+  city?: string; // 当日所在城市（多目的地行程时提供）
+  place: GroundedPlace;
+}
+
+/**
+ * 去掉括号内的分店/入口说明、空白和标点，便于比较地点名称
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .replace(/[（(【\[][^）)】\]]*[）)】\]]/g, '')
+    .replace(/[\s·•・\-—_,，、。.:：;；'"“”‘’「」『』《》!！?？]/g, '')
+    .toLowerCase();
+}
+
+function bigrams(text: string): string[] {
+  const chars = Array.from(text);
+  if (chars.length < 2) {
+    return chars;
+  }
+  const result: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    result.push(chars[i] + chars[i + 1]);
+  }
+  return result;
+}
+
+/**
+ * 较长名称是否为较短名称的别称：较短名称占大部分，或只多出通用后缀（如"故宫"与"故宫博物院"）
+ */
+function isContainedVariant(shorter: string, longer: string): boolean {
+  const shorterLength = Array.from(shorter).length;
+  if (shorterLength < 2 || !longer.includes(shorter)) {
+    return false;
+  }
+  if (shorterLength / Array.from(longer).length >= CONTAINMENT_MIN_SHARE) {
+    return true;
+  }
+  return longer.startsWith(shorter) && GENERIC_SUFFIXES.includes(longer.substring(shorter.length));
+}
+
+/**
+ * 地点名称相似度（0-1）：相同为1，一方是另一方的别称（如"故宫"与"故宫博物院"）为0.9，其余按二元组Dice系数计算
+ */
+export function placeSimilarity(a: string, b: string): number {
+  const x = normalizePlaceName(a);
+  const y = normalizePlaceName(b);
+  if (!x || !y) {
+    return 0;
+  }
+  if (x === y) {
+    return 1;
+  }
+  const shorter = x.length <= y.length ? x : y;
+  const longer = shorter === x ? y : x;
+  if (isContainedVariant(shorter, longer)) {
+    return 0.9;
+  }
+  const left = bigrams(x);
+  const right = bigrams(y);
+  const remaining = [...right];
+  let common = 0;
+  for (const gram of left) {
+    const index = remaining.indexOf(gram);
+    if (index >= 0) {
+      common++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * common) / (left.length + right.length);
+}
+
+/**
+ * 在POI列表中查找与名称最相近的地点，没有足够相近的返回undefined
+ */
+export function findPoi(name: string, pois: PoiItem[]): number | undefined {
+  let best: number | undefined;
+  let bestScore = MATCH_THRESHOLD;
+  pois.forEach((poi, index) => {
+    const score = placeSimilarity(name, poi.name);
+    if (score > bestScore || (score === bestScore && best === undefined)) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function isSlot(place: GroundedPlace): place is ItinerarySlot {
+  return 'time' in place;
+}
+
+function collectMentions(itinerary: Itinerary): PlaceMention[] {
+  const mentions: PlaceMention[] = [];
+  for (const day of itinerary.days) {
+    const add = (place: GroundedPlace) => mentions.push({ name: place.name, day: day.day, city: day.city, place });
+    for (const slot of day.slots) {
+      add(slot);
+      if (slot.rainyAlternative) {
+        add(slot.rainyAlternative);
+      }
+    }
+    day.meals.forEach(add);
+  }
+  return mentions;
+}
+
+/**
+ * 将行程中的地点与发送给大模型的POI列表比对：名称相近的标记为 verified 并修正 poiIndex、补充地址坐标，
+ * 不在列表中的（包括 poiIndex 与名称对不上的）先标记为 unverified 并返回，由调用方通过高德搜索确认
+ */
+export function groundItinerary(itinerary: Itinerary, pois: PoiItem[]): PlaceMention[] {
+  const unmatched: PlaceMention[] = [];
+  for (const mention of collectMentions(itinerary)) {
+    const place = mention.place;
+    const index = findPoi(mention.name, pois);
+    const poi = index !== undefined ? pois[index] : undefined;
+    place.poiIndex = index;
+    place.grounding = poi ? 'verified' : 'unverified';
+    if (isSlot(place)) {
+      place.address = poi?.address;
+      place.location = poi?.location;
+      place.setting = poi?.setting;
+    }
+    if (!poi) {
+      unmatched.push(mention);
+    }
+  }
+  return unmatched;
+}
+
+/**
+ * 用高德搜索结果确认不在POI列表中的地点，找到名称相近的结果时标记为 resolved
+ * @returns 是否确认成功
+ */
+export function resolveMention(mention: PlaceMention, candidates: PoiItem[]): boolean {
+  const index = findPoi(mention.name, candidates);
+  if (index === undefined) {
+    return false;
+  }
+  const place = mention.place;
+  place.grounding = 'resolved';
+  if (isSlot(place)) {
+    place.address = candidates[index].address;
+    place.location = candidates[index].location;
+  }
+  return true;
+}
+
+/**
+ * 未能确认的地点名称（去重）
+ */
+export function unverifiedPlaces(itinerary: Itinerary): string[] {
+  const names = collectMentions(itinerary)
+    .filter(mention => mention.place.grounding === 'unverified')
+    .map(mention => mention.name);
+  return Array.from(new Set(names));
+}
@@ -0,0 +1,164 @@
+import type { InterestId, PoiItem } from '../services/types';
+import { INTEREST_POI_QUERIES } from '../services/interests';
+import { placeSimilarity } from './placeGrounding';
+import { distanceBetween } from './routePlanner';
+
+// 各项得分的权重，合计为1
+const WEIGHT_RATING = 0.4;
+const WEIGHT_INTEREST = 0.3;
+const WEIGHT_DISTANCE = 0.2;
+const WEIGHT_PHOTO = 0.1;
+
+// 没有对应数据时的中性得分，避免缺少评分或距离的POI被过度压低
+const NEUTRAL = 0.5;
+// 坐标相距不超过该距离（米）且名称相似度不低于阈值的POI视为同一地点
+const DUPLICATE_DISTANCE = 20;
+const DUPLICATE_NAME_SIMILARITY = 0.6;
+// 同一小类（分类编码前4位）最多占结果的比例
+const MAX_CATEGORY_SHARE = 0.3;
+const MIN_CATEGORY_CAP = 2;
+
+/**
+ * 排序依据：兴趣偏好与查询中提到的地点类型（高德搜索关键词）
+ */
+export interface RankingContext {
+  interests: InterestId[];
+  categories: string[];
+}
+
+/**
+ * POI的唯一标识，优先使用高德ID，没有ID时（如Mock数据）使用名称
+ */
+export function poiKey(poi: PoiItem): string {
+  return poi.id ? `id:${poi.id}` : `name:${poi.name}`;
+}
+
+/**
+ * 分类编码前缀，去掉末尾表示"全部"的0，如 050000 -> 05、110200 -> 1102
+ */
+function typecodePrefix(code: string): string {
+  return code.replace(/(00)+$/, '');
+}
+
+function ratingScore(poi: PoiItem): number {
+  if (poi.rating === undefined || poi.rating <= 0) {
+    return NEUTRAL;
+  }
+  // 高德评分大多在3-5分之间，按此区间拉开差距
+  return Math.min(1, Math.max(0, (poi.rating - 3) / 2));
+}
+
+function distanceScore(poi: PoiItem): number {
+  if (poi.distance === undefined) {
+    return NEUTRAL;
+  }
+  // 1公里内接近满分，3公里约为一半
+  return 1 / (1 + poi.distance / 3000);
+}
+
+function interestScore(poi: PoiItem, context: RankingContext): number {
+  if (context.interests.length === 0 && context.categories.length === 0) {
+    return NEUTRAL;
+  }
+  const typecodes = (poi.typecode ?? '').split('|').filter(code => code.length > 0);
+  const text = `${poi.name}${poi.type ?? ''}`;
+  const matched = context.interests.some(id => {
+    const query = INTEREST_POI_QUERIES[id];
+    const prefixes = (query.types ?? '').split('|').filter(code => code.length > 0).map(typecodePrefix);
+    const typeMatched = prefixes.length > 0 && typecodes.some(code => prefixes.some(prefix => code.startsWith(prefix)));
+    // 分类较宽的兴趣同时要求关键词命中，如爬山要求名称或分类中含"山"
+    const keywords = (query.keywords ?? '').split('|').filter(word => word.length > 0);
+    const keywordMatched = keywords.length === 0 || keywords.some(word => text.includes(word));
+    return typeMatched && keywordMatched;
+  }) || context.categories.some(category => category.split('|').some(word => word && text.includes(word)));
+  return matched ? 1 : 0;
+}
+
+/**
+ * 计算POI的排序得分（0-1）：评分、距离、兴趣匹配与是否有图片
+ */
+export function scorePoi(poi: PoiItem, context: RankingContext): number {
+  const score = WEIGHT_RATING * ratingScore(poi) +
+    WEIGHT_INTEREST * interestScore(poi, context) +
+    WEIGHT_DISTANCE * distanceScore(poi) +
+    WEIGHT_PHOTO * (poi.image ? 1 : 0);
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * 计算得分并按得分从高到低排序，得分相同时保持原顺序（高德的相关度排序）
+ */
+export function scorePois(pois: PoiItem[], context: RankingContext): PoiItem[] {
+  return pois
+    .map((poi, index) => ({ poi: { ...poi, score: scorePoi(poi, context) } as PoiItem, index }))
+    .sort((a, b) => (b.poi.score ?? 0) - (a.poi.score ?? 0) || a.index - b.index)
+    .map(item => item.poi);
+}
+
+function isSamePlace(a: PoiItem, b: PoiItem): boolean {
+  if (!a.location || !b.location || distanceBetween(a.location, b.location) > DUPLICATE_DISTANCE) {
+    return false;
+  }
+  // 同一商场、街区内的不同店铺坐标也可能几乎相同，需名称相近才合并
+  return placeSimilarity(a.name, b.name) >= DUPLICATE_NAME_SIMILARITY;
+}
+
+/**
+ * 去重：同一高德ID，或坐标几乎相同且名称相近（如"故宫博物院"与"故宫博物院-午门"）的POI只保留靠前的一个
+ */
+export function dedupePois(pois: PoiItem[]): PoiItem[] {
+  const seen = new Set<string>();
+  const kept: PoiItem[] = [];
+  for (const poi of pois) {
+    const key = poiKey(poi);
+    if (seen.has(key)) {
+      continue;
+    }
+    if (kept.some(item => isSamePlace(item, poi))) {
+      continue;
+    }
+    seen.add(key);
+    kept.push(poi);
+  }
+  return kept;
+}
+
+/**
+ * 按顺序选出前 limit 个POI，同一小类（如中餐厅、公园）最多占约30%，名额不足时再由被跳过的POI补足
+ * 结果保持输入中的相对顺序
+ */
+export function diversifyPois(pois: PoiItem[], limit: number): PoiItem[] {
+  const cap = Math.max(MIN_CATEGORY_CAP, Math.ceil(limit * MAX_CATEGORY_SHARE));
+  const counts = new Map<string, number>();
+  const picked = new Set<PoiItem>();
+  const skipped: PoiItem[] = [];
+  for (const poi of pois) {
+    if (picked.size >= limit) {
+      break;
+    }
+    const category = (poi.typecode ?? '').slice(0, 4);
+    const count = counts.get(category) ?? 0;
+    if (category && count >= cap) {
+      skipped.push(poi);
+      continue;
+    }
+    counts.set(category, count + 1);
+    picked.add(poi);
+  }
+  skipped.slice(0, limit - picked.size).forEach(poi => picked.add(poi));
+  return pois.filter(poi => picked.has(poi));
+}
+
+/**
+ * 排序并选出发给大模型和界面展示的前 limit 个POI：打分、去重、保证类别多样
+ */
+export function rankPois(pois: PoiItem[], context: RankingContext, limit: number): PoiItem[] {
+  return diversifyPois(dedupePois(scorePois(pois, context)), limit);
+}
+
+/**
+ * 选出已按组合并（组内已排序）的前 limit 个POI：去重、保证类别多样，不改变合并后的顺序
+ */
+export function selectPois(pois: PoiItem[], limit: number): PoiItem[] {
+  return diversifyPois(dedupePois(pois), limit);
+}
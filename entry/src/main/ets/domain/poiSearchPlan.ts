@@ -0,0 +1,107 @@
+import type { InterestId, PoiItem, PoiQuery } from '../services/types';
+import { INTEREST_NAMES, INTEREST_POI_QUERIES, SIGHTSEEING_POI_QUERY } from '../services/interests';
+import { poiKey } from './poiRanking';
+
+/**
+ * 一组POI搜索：每个兴趣偏好或查询中提到的地点类型各一组，合并时按组分配配额
+ */
+export interface PoiSearchGroup {
+  label: string; // 用于日志，如"美食"
+  query: PoiQuery;
+}
+
+/**
+ * 搜索条件的唯一标识，用于记录已搜索过的类别
+ */
+export function poiQueryKey(query: PoiQuery): string {
+  return query.keywords && !query.types ? query.keywords : `${query.keywords ?? ''}#${query.types ?? ''}`;
+}
+
+/**
+ * 由兴趣偏好和查询中提到的地点类型生成搜索分组，并始终包含一组通用景点，保证行程有可游览的地点
+ * @param includeSightseeing 为false时（附近推荐）仅在没有其他分组时搜索通用景点
+ */
+export function buildPoiSearchGroups(
+  interests: InterestId[],
+  categories: string[],
+  includeSightseeing: boolean = true
+): PoiSearchGroup[] {
+  const groups: PoiSearchGroup[] = [];
+  const seen = new Set<string>();
+  const add = (group: PoiSearchGroup) => {
+    const key = poiQueryKey(group.query);
+    if (!seen.has(key)) {
+      seen.add(key);
+      groups.push(group);
+    }
+  };
+  interests.forEach(id => add({ label: INTEREST_NAMES[id], query: INTEREST_POI_QUERIES[id] }));
+  categories.forEach(category => add({ label: category, query: { keywords: category } }));
+  if (includeSightseeing || groups.length === 0) {
+    add({ label: '景点', query: SIGHTSEEING_POI_QUERY });
+  }
+  return groups;
+}
+
+/**
+ * 按组配额合并搜索结果：总数平分给各组（余数优先给靠前的组），同一POI只保留一次，
+ * 结果不足配额的组让出的名额由其余各组的剩余结果轮流补足
+ * 结果按组轮流排列（各组第1个、各组第2个……），截取任意前N个时各组仍大致均衡
+ * @param results 与搜索分组一一对应的结果，组内按得分或相关度排序
+ */
+export function mergeByQuota(results: PoiItem[][], total: number): PoiItem[] {
+  if (results.length === 0 || total <= 0) {
+    return [];
+  }
+  const quota = Math.floor(total / results.length);
+  const extra = total - quota * results.length;
+  const seen = new Set<string>();
+  const picked: PoiItem[][] = results.map(() => []);
+  const rest: PoiItem[][] = results.map(() => []);
+
+  results.forEach((pois, index) => {
+    const groupQuota = quota + (index < extra ? 1 : 0);
+    for (const poi of pois) {
+      const key = poiKey(poi);
+      if (seen.has(key)) {
+        continue;
+      }
+      if (picked[index].length < groupQuota) {
+        seen.add(key);
+        picked[index].push(poi);
+      } else {
+        rest[index].push(poi);
+      }
+    }
+  });
+
+  const merged: PoiItem[] = [];
+  const longest = Math.max(...picked.map(pois => pois.length));
+  for (let rank = 0; rank < longest; rank++) {
+    picked.forEach(pois => {
+      if (rank < pois.length) {
+        merged.push(pois[rank]);
+      }
+    });
+  }
+
+  // 轮流从各组剩余结果中补足
+  const cursors = rest.map(() => 0);
+  let added = true;
+  while (merged.length < total && added) {
+    added = false;
+    for (let index = 0; index < rest.length && merged.length < total; index++) {
+      while (cursors[index] < rest[index].length) {
+        const poi = rest[index][cursors[index]++];
+        const key = poiKey(poi);
+        if (!seen.has(key)) {
+          seen.add(key);
+          merged.push(poi);
+          added = true;
+          break;
+        }
+      }
+    }
+  }
+  return merged;
+}
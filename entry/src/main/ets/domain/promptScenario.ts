@@ -0,0 +1,43 @@
+import type { InterestId, PromptScenario, RecommendationRequest } from '../services/types';
+import type { TravelIntent } from './intentParser';
+
+// 人均每天预算不超过该值（元）时按经济出行安排
+const BUDGET_DAILY_LIMIT = 300;
+
+const OUTDOOR_INTERESTS: InterestId[] = ['hiking', 'climbing'];
+const FAMILY_COMPANIONS = /孩子|亲子|家庭|家人|带娃|宝宝|小朋友|儿童|老人|父母|爸妈/;
+
+function isBudgetTrip(request: RecommendationRequest): boolean {
+  const max = request.budget?.max;
+  if (max === undefined) {
+    return false;
+  }
+  const days = request.travelDays ?? 1;
+  const partySize = request.budget?.perPerson ? 1 : request.partySize ?? 1;
+  return max / days / partySize <= BUDGET_DAILY_LIMIT;
+}
+
+/**
+ * 根据解析后的意图和结构化请求选择提示词模板场景
+ * 优先级：附近快速推荐 > 亲子 > 户外 > 经济 > 多日 > 一日游
+ * @param request 已合并查询意图的请求
+ */
+export function selectPromptScenario(request: RecommendationRequest, intent: TravelIntent): PromptScenario {
+  const interests = request.interests ?? [];
+  if (intent.nearby) {
+    return 'local_food';
+  }
+  if (interests.includes('family') || FAMILY_COMPANIONS.test(request.companions ?? '')) {
+    return 'family';
+  }
+  if (interests.some(interest => OUTDOOR_INTERESTS.includes(interest))) {
+    return 'outdoor';
+  }
+  if (isBudgetTrip(request)) {
+    return 'budget';
+  }
+  if ((request.travelDays ?? 1) > 1 || (request.stops?.length ?? 0) > 1) {
+    return 'multi_day';
+  }
+  return 'city_day';
+}
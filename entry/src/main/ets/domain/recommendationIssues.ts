@@ -0,0 +1,171 @@
+import { isHttpError, type HttpErrorKind } from '../common/httpClient';
+import { AmapError, type AmapErrorKind } from '../services/amapError';
+import { LlmError, type LlmErrorKind } from '../services/llm/llmProvider';
+import type {
+  RecommendationErrorAction,
+  RecommendationErrorKind,
+  RecommendationIssue
+} from '../services/types';
+
+type IssueSource = RecommendationIssue['source'];
+
+const AMAP_KINDS: Record<AmapErrorKind, RecommendationErrorKind> = {
+  auth: 'auth',
+  quota: 'quota',
+  rate_limit: 'rate_limit',
+  invalid_params: 'invalid_params',
+  server: 'server',
+  timeout: 'timeout',
+  network: 'network',
+  aborted: 'cancelled',
+  unknown: 'unknown',
+};
+
+const LLM_KINDS: Record<LlmErrorKind, RecommendationErrorKind> = {
+  auth: 'auth',
+  quota: 'quota',
+  rate_limit: 'rate_limit',
+  content_filter: 'content_filter',
+  context_length: 'invalid_params',
+  model_not_found: 'invalid_params',
+  timeout: 'timeout',
+  network: 'network',
+  aborted: 'cancelled',
+  server: 'server',
+  empty: 'empty_result',
+  unknown: 'unknown',
+};
+
+const HTTP_KINDS: Record<HttpErrorKind, RecommendationErrorKind> = {
+  network: 'network',
+  timeout: 'timeout',
+  status: 'server',
+  parse: 'server',
+  aborted: 'cancelled',
+  handler: 'unknown',
+  fixture: 'unknown',
+};
+
+const SOURCE_LABELS: Record<IssueSource, string> = {
+  amap: '高德地图',
+  llm: '大模型',
+  app: '',
+};
+
+const MESSAGES: Record<RecommendationErrorKind, string> = {
+  network: '网络连接失败，请检查网络后重试',
+  timeout: '响应超时，请稍后重试',
+  auth: '密钥无效或无权限，请检查密钥',
+  quota: '调用额度已用完，请明天再试或更换密钥',
+  rate_limit: '请求过于频繁，请稍后重试',
+  invalid_params: '请求参数有误，请调整查询条件',
+  empty_result: '没有返回结果，请尝试其他目的地或关键词',
+  content_filter: '内容未通过安全审核，请修改描述后重试',
+  unverified_place: '行程中有地点未能在目的地找到，出行前请核实',
+  server: '服务暂时异常，请稍后重试',
+  cancelled: '请求已取消',
+  unknown: '调用失败，请稍后重试',
+};
+
+const ACTION_LABELS: Record<RecommendationErrorAction, string> = {
+  retry: '重试',
+  fix_key: '检查密钥',
+  change_query: '修改条件',
+  none: '',
+};
+
+/**
+ * 按错误类型和来源选择处理方式
+ * 大模型的参数错误（模型不存在、超出上下文）需要修改配置，空回复重试即可
+ */
+function actionFor(kind: RecommendationErrorKind, source: IssueSource): RecommendationErrorAction {
+  switch (kind) {
+    case 'auth':
+    case 'quota':
+      return 'fix_key';
+    case 'invalid_params':
+      return source === 'llm' ? 'none' : 'change_query';
+    case 'empty_result':
+      return source === 'llm' ? 'retry' : 'change_query';
+    case 'content_filter':
+      return 'change_query';
+    case 'unverified_place':
+      return 'none';
+    default:
+      return 'retry';
+  }
+}
+
+export function createIssue(
+  kind: RecommendationErrorKind,
+  source: IssueSource,
+  code?: string,
+  detail?: string
+): RecommendationIssue {
+  const label = SOURCE_LABELS[source];
+  return {
+    kind,
+    source,
+    message: label ? `${label}：${MESSAGES[kind]}` : MESSAGES[kind],
+    action: actionFor(kind, source),
+    code,
+    detail,
+  };
+}
+
+/**
+ * 将服务抛出的异常归类为结构化的错误
+ */
+export function issueFromError(error: unknown): RecommendationIssue {
+  if (error instanceof AmapError) {
+    return createIssue(AMAP_KINDS[error.kind], 'amap', error.infocode, error.info);
+  }
+  if (error instanceof LlmError) {
+    return createIssue(LLM_KINDS[error.kind], 'llm', error.status !== undefined ? String(error.status) : undefined,
+      error.detail);
+  }
+  if (isHttpError(error)) {
+    return createIssue(HTTP_KINDS[error.kind], 'app', error.status !== undefined ? String(error.status) : undefined,
+      error.message);
+  }
+  return createIssue('unknown', 'app', undefined, (error as Error)?.message);
+}
+
+/**
+ * 搜索成功但没有找到地点
+ */
+export function emptyResultIssue(): RecommendationIssue {
+  return {
+    kind: 'empty_result',
+    source: 'amap',
+    message: '未找到相关地点，请尝试其他目的地或关键词',
+    action: 'change_query',
+  };
+}
+
+/**
+ * 行程中有未能在目的地找到的地点，最多列出3个名称
+ */
+export function unverifiedPlaceIssue(names: string[]): RecommendationIssue {
+  const listed = names.slice(0, 3).join('、');
+  const more = names.length > 3 ? `等${names.length}个地点` : '';
+  return {
+    kind: 'unverified_place',
+    source: 'app',
+    message: `${listed}${more}未能在目的地找到，可能不存在或名称有误，出行前请核实`,
+    action: 'none',
+  };
+}
+
+/**
+ * 加入列表，同一来源的同类问题只保留一条
+ */
+export function addIssue(issues: RecommendationIssue[], issue: RecommendationIssue): void {
+  if (!issues.some(item => item.source === issue.source && item.kind === issue.kind)) {
+    issues.push(issue);
+  }
+}
+
+export function issueActionLabel(action: RecommendationErrorAction): string {
+  return ACTION_LABELS[action];
+}
@@ -1,7 +1,106 @@
 import { AmapService } from '../services/amapService';
-import { LlmService } from '../services/llmService';
-import type { PoiItem, RecommendationResult, RecommendationRequest, WeatherInfo, WeatherForecast } from '../services/types';
+import { CachedAmapService } from '../services/cachedAmapService';
+import { LlmService, LLM_MAX_TOKENS, type LlmChatMessage, type PromptInput } from '../services/llmService';
+import { parseItinerary, formatItinerary, previewItinerary } from '../services/itineraryParser';
+import { buildAmapMarkerUrl } from '../services/amapService';
+import type {
+  BudgetEstimate,
+  DayWeather,
+  IntercityTransfer,
+  Itinerary,
+  PoiItem,
+  PromptTemplateRef,
+  RecommendationOptions,
+  RecommendationIssue,
+  RecommendationResult,
+  RecommendationRequest,
+  TripStopResult,
+  WeatherInfo,
+  WeatherForecast
+} from '../services/types';
 import type { AppConfig } from '../common/config';
+import type { TtlCache } from '../common/ttlCache';
+import type { SecretReader } from '../common/secretStore';
+import type { HttpAbortSignal } from '../common/httpClient';
+import { Trace, type TraceParams, type TraceRecorder } from '../common/tracing';
+import { addIssue, emptyResultIssue, issueFromError, unverifiedPlaceIssue } from './recommendationIssues';
+import { groundItinerary, resolveMention, unverifiedPlaces } from './placeGrounding';
+import { selectPromptScenario } from './promptScenario';
+import { parseTravelIntent, applyTravelIntent, type TravelIntent } from './intentParser';
+import { dateRangeDays, parseDateRange } from './travelDates';
+import { buildPoiSearchGroups, mergeByQuota, poiQueryKey, type PoiSearchGroup } from './poiSearchPlan';
+import { poiKey, rankPois, scorePois, selectPois, type RankingContext } from './poiRanking';
+import {
+  annotateItineraryStops,
+  formatTransfer,
+  formatTripRoute,
+  resolveTripStops,
+  stopForDay,
+  tripDays,
+  type TripPlan
+} from './multiCityTrip';
+import { ConversationSession } from './conversationSession';
+import { RoutePlanner, distanceBetween } from './routePlanner';
+import { estimateBudget, buildBudgetConstraint, type BudgetInput } from './budgetEstimator';
+import { alignDayWeather, buildDayWeatherContext, classifyPois } from './weatherPlan';
+import { hilog } from '@kit.PerformanceAnalysisKit';
+
+const DOMAIN = 0x0000;
+const TAG = 'RecommendationUseCase';
+
+// 内存中最多保留的对话会话数
+const MAX_SESSIONS = 10;
+// 发送给大模型的候选POI总数上限
+const MAX_POIS = 50;
+// 多目的地行程中每个城市至少保留的POI数
+const MIN_POIS_PER_CITY = 15;
+// 每组分类搜索默认最多获取的POI数（分页获取）
+const DEFAULT_POI_SEARCH_LIMIT = 50;
+// 附近推荐的搜索半径（米）
+const NEARBY_RADIUS = 3000;
+// 排序筛选前按配额合并的候选数是最终数量的倍数，为去重和类别多样留出余量
+const CANDIDATE_FACTOR = 2;
+// 每次生成最多核实的不在POI列表中的地点数
+const MAX_PLACE_LOOKUPS = 8;
+// 核实地点时获取的搜索结果数
+const PLACE_LOOKUP_SIZE = 10;
+
+// 调整指令中可能引入的新POI类别及对应的搜索关键词
+const REFINE_CATEGORIES: Array<{ pattern: RegExp; keywords: string }> = [
+  { pattern: /博物馆|展览|美术馆|艺术馆/, keywords: '博物馆|美术馆|展览馆' },
+  { pattern: /餐厅|美食|小吃|饭店|便宜|实惠/, keywords: '餐厅|美食|小吃' },
+  { pattern: /咖啡|茶馆|下午茶/, keywords: '咖啡厅|茶馆' },
+  { pattern: /酒吧|夜生活|夜景|夜市/, keywords: '酒吧|夜市|夜景' },
+  { pattern: /公园|自然|爬山|徒步|湖边/, keywords: '公园|风景区|森林公园' },
+  { pattern: /购物|商场|逛街/, keywords: '购物中心|商业街' },
+  { pattern: /寺|庙|古镇|古迹|历史/, keywords: '寺庙|古镇|名胜古迹' },
+  { pattern: /亲子|孩子|动物园|游乐园|乐园/, keywords: '动物园|游乐园|主题乐园' },
+  { pattern: /温泉|按摩|放松/, keywords: '温泉|足疗' },
+];
+
+function countPois(pois: PoiItem[]): string {
+  return `${pois.length}个POI`;
+}
+
+/**
+ * 查询解析结果的简短描述，记录在追踪中
+ */
+function describeIntent(intent: TravelIntent): string {
+  const parts: string[] = [];
+  if (intent.destination) {
+    parts.push(`目的地: ${intent.destination}`);
+  }
+  if (intent.days) {
+    parts.push(`${intent.days}天`);
+  }
+  if (intent.interests.length > 0) {
+    parts.push(`兴趣: ${intent.interests.join('/')}`);
+  }
+  if (intent.nearby) {
+    parts.push('附近');
+  }
+  return parts.join(', ') || '未识别到意图';
+}
 
 /**
  * 推荐用例：组合高德地图POI搜索和大模型推荐生成
@@ -9,214 +108,878 @@ import type { AppConfig } from '../common/config';
 export class RecommendationUseCase {
   private amapService: AmapService;
   private llmService: LlmService;
+  private routePlanner: RoutePlanner;
   private config: AppConfig;
+  private sessions: Map<string, ConversationSession> = new Map();
+  private amapCache: TtlCache | null;
+  private secrets: SecretReader;
+  private traces: TraceRecorder | null;
 
-  constructor(config: AppConfig) {
+  /**
+   * @param secrets 高德地图与大模型的密钥
+   * @param amapCache 可选，高德接口缓存，传入时城市编码、天气和POI搜索优先读取缓存
+   * @param traces 可选，保存每次调用的追踪记录，供诊断页查看
+   */
+  constructor(config: AppConfig, secrets: SecretReader, amapCache?: TtlCache, traces?: TraceRecorder) {
     this.config = config;
-    this.amapService = new AmapService(config);
-    this.llmService = new LlmService(config);
+    this.secrets = secrets;
+    this.traces = traces ?? null;
+    // 录制/回放时绕过缓存，保证每次请求都经过HTTP层
+    this.amapCache = amapCache && (config.httpFixtureMode ?? 'off') === 'off' ? amapCache : null;
+    this.amapService = this.amapCache
+      ? new CachedAmapService(config, secrets, this.amapCache)
+      : new AmapService(config, secrets);
+    this.llmService = new LlmService(config, secrets);
+    this.routePlanner = new RoutePlanner(this.amapService);
   }
 
   /**
-   * 获取推荐结果
+   * 获取推荐结果，结果中的 traceId 对应本次调用的追踪记录
+   * @param onPartial 可选，流式生成时每收到新内容回调一次当前的摘要预览
+   * @param signal 可选，取消信号，取消后未完成的网络请求立即结束，不再发起后续步骤，返回类型为 cancelled 的错误
    */
-  async getRecommendations(request: RecommendationRequest): Promise<RecommendationResult> {
+  async getRecommendations(
+    request: RecommendationRequest,
+    onPartial?: (partialSummary: string) => void,
+    signal?: HttpAbortSignal
+  ): Promise<RecommendationResult> {
+    const trace = new Trace('getRecommendations');
     try {
-      // 1. 优先使用请求中的目的地城市，如果没有则从查询中解析
-      const targetCity = request.destination || request.city || this.config.defaultCity || '北京';
-      
-      // 2. 解析用户查询，提取关键词（使用目标城市）
-      const { keywords, city } = this.parseQuery(request.query, targetCity);
-      
-      // 确保使用正确的目标城市（优先使用request中的destination）
-      const searchCity = request.destination || city || targetCity;
-
-      // 3. 调用高德地图搜索POI（使用目标城市）
+      // 1. 解析查询中的旅行意图，补全请求中缺失的目的地、天数、预算等字段
+      const query = request.query;
+      const intent = trace.spanSync('parseQuery', { query }, () => parseTravelIntent(query), describeIntent);
+      request = applyTravelIntent(request, intent);
+
+      // 多目的地行程：分配各站天数，第一站作为主目的地，总天数按各站合计
+      const stops = resolveTripStops(request);
+      if (stops.length > 0) {
+        request = {
+          ...request,
+          destination: stops[0].destination,
+          city: stops[0].city,
+          travelDays: tripDays(stops),
+          stops: stops.map(stop => ({ destination: stop.destination, days: stop.days })),
+        };
+      }
+
+      // 提供了当前位置时逆地理编码得到可读地址，未指定目的地时以所在城市作为搜索城市
+      if (request.location && !request.locationAddress && this.amapEnabled()) {
+        const location = request.location;
+        const origin = await trace.span('amap.reverseGeocode', { location },
+          () => this.amapService.reverseGeocode(location, signal), value => value?.address ?? '无结果');
+        signal?.throwIfAborted();
+        if (origin) {
+          request = {
+            ...request,
+            locationAddress: origin.address,
+            city: !request.destination && origin.city ? origin.city : request.city,
+          };
+        }
+      }
+
+      // 2. 确定搜索城市和搜索分组：目的地为景区时使用其所在城市，每个兴趣偏好和查询中提到的地点类型各一组
+      // 提供了当前位置且查询的是附近（如"今天吃什么"）时改为周边搜索
+      const searchCity = request.city || request.destination || this.config.defaultCity || '北京';
+      const nearbyLocation = intent.nearby && stops.length === 0 ? request.location : undefined;
+      const groups = buildPoiSearchGroups(request.interests ?? [], intent.categories, !nearbyLocation);
+      const ranking: RankingContext = { interests: request.interests ?? [], categories: intent.categories };
+
+      // 3. 调用高德地图按组搜索POI并按配额合并（多目的地行程逐城搜索，按城市平分数量）
       let pois: PoiItem[] = [];
-      if (!this.config.mockMode && this.config.amapKey) {
-        try {
-          // 使用更具体的旅游相关关键词，优先搜索景点
-          let searchKeywords = keywords;
-          if (!searchKeywords || searchKeywords === '景点 旅游') {
-            // 如果没有提取到关键词，使用多个旅游相关关键词组合搜索
-            searchKeywords = '景点|旅游景点|名胜古迹|景区|公园|博物馆|纪念馆';
-          } else if (!searchKeywords.includes('景点') && !searchKeywords.includes('旅游')) {
-            // 如果关键词不包含景点相关词，则添加景点关键词
-            searchKeywords = `${searchKeywords}|景点|旅游景点`;
+      const searchIssues: RecommendationIssue[] = [];
+      const warnings: RecommendationIssue[] = [];
+      const searchedKeywords: string[] = [];
+      let nearbyOrigin: string | undefined;
+      if (this.amapEnabled()) {
+        if (nearbyLocation) {
+          pois.push(...await this.searchNearbyPois(groups, nearbyLocation, MAX_POIS, ranking, searchIssues,
+            trace, signal));
+          if (pois.length > 0) {
+            nearbyOrigin = request.locationAddress ?? nearbyLocation;
           }
-          pois = await this.amapService.searchPoi(searchKeywords, searchCity);
-          
-          // 如果第一次搜索结果太少，尝试使用更通用的关键词
-          if (pois.length < 5) {
-            const fallbackPois = await this.amapService.searchPoi('景点', searchCity);
-            // 合并结果，去重
-            const existingNames = new Set(pois.map(p => p.name));
-            const newPois = fallbackPois.filter(p => !existingNames.has(p.name));
-            pois = [...pois, ...newPois].slice(0, 50); // 限制总数
+        }
+        // 不是附近查询或附近没有结果时搜索整个城市
+        if (pois.length === 0) {
+          const cities = stops.length > 0 ? stops.map(stop => stop.city) : [searchCity];
+          const limit = Math.max(MIN_POIS_PER_CITY, Math.floor(MAX_POIS / cities.length));
+          for (const city of cities) {
+            const existingKeys = new Set(pois.map(poiKey));
+            const cityPois = await this.searchCityPois(groups, city, limit, ranking, searchIssues, trace,
+              signal);
+            pois.push(...cityPois.filter(p => !existingKeys.has(poiKey(p))));
           }
-        } catch (error) {
-          console.warn('高德API调用失败，使用空列表:', error);
-          pois = [];
         }
+        searchedKeywords.push(...groups.map(group => poiQueryKey(group.query)));
       }
+      // 标注室内/户外，供大模型按天气安排
+      pois = classifyPois(pois);
 
-      // 3. 如果POI为空且不是mock模式，返回错误提示
+      // 3. 如果POI为空且不是mock模式，返回错误提示：搜索调用失败时给出失败原因（如密钥无效、额度用完），否则提示修改查询
       if (pois.length === 0 && !this.config.mockMode) {
-        return {
-          summary: '未找到相关地点，请尝试其他关键词或检查网络连接。',
+        const issue = searchIssues[0] ?? emptyResultIssue();
+        return this.finishTrace(trace, {
+          summary: issue.message,
           items: [],
           fromMock: false,
-        };
+          error: issue,
+        });
       }
+      // 部分类别搜索失败但仍有结果时作为警告
+      searchIssues.forEach(issue => addIssue(warnings, issue));
 
-      // 4. 获取天气信息（如果配置了高德地图密钥）
+      // 4. 获取天气信息（如果配置了高德地图密钥且用户未关闭天气查询），多目的地行程逐城查询
+      const options: RecommendationOptions = request.options ?? {};
       let weather: WeatherInfo | null = null;
       let weatherForecast: WeatherForecast[] | null = null;
-      if (!this.config.mockMode && this.config.amapKey && searchCity) {
-        try {
-          // 先获取城市编码，然后复用给两个天气查询，避免重复查询
-          const cityAdcode = await this.amapService.getCityAdcode(searchCity);
-          weather = await this.amapService.getWeather(searchCity, cityAdcode);
-          weatherForecast = await this.amapService.getWeatherForecast(searchCity, cityAdcode);
-        } catch (error) {
-          console.warn('天气查询失败，继续生成推荐:', error);
+      if (this.amapEnabled() && searchCity && options.queryWeather !== false) {
+        const warningCount = warnings.length;
+        if (stops.length > 0) {
+          for (const stop of stops) {
+            const cityWeather = await this.fetchWeather(stop.city, warnings, trace, signal);
+            stop.weather = cityWeather.weather ?? undefined;
+            stop.weatherForecast = cityWeather.forecast ?? undefined;
+          }
+          weather = stops[0].weather ?? null;
+          weatherForecast = stops[0].weatherForecast ?? null;
+        } else {
+          const cityWeather = await this.fetchWeather(searchCity, warnings, trace, signal);
+          weather = cityWeather.weather;
+          weatherForecast = cityWeather.forecast;
+        }
+        // 查询失败时已记录失败原因，这里只补充没有返回数据的情况
+        if (!weather && !weatherForecast && warnings.length === warningCount) {
+          warnings.push({
+            kind: 'empty_result',
+            source: 'amap',
+            message: '天气信息暂不可用，行程未参考天气安排',
+            action: 'none',
+          });
+        }
+      }
+      // 按出行日期逐日匹配预报（多目的地行程使用当天所在城市的预报）
+      const dayWeather: DayWeather[] | null = weatherForecast || stops.some(stop => stop.weatherForecast)
+        ? this.alignWeather(request, searchCity, stops, weatherForecast)
+        : null;
+
+      // 多目的地行程：规划相邻两站之间的城际交通
+      const trip: TripPlan | null = stops.length > 0
+        ? { stops, transfers: await this.planTransfers(stops, request, warnings, trace, signal) }
+        : null;
+
+      // 预算估算的基础输入（开启生成预算或填写了预算范围时）
+      let budgetInput: BudgetInput | null = null;
+      if (this.wantsBudget(request)) {
+        budgetInput = {
+          city: searchCity,
+          days: request.travelDays ?? 1,
+          partySize: request.partySize ?? 1,
+          pois,
+          range: request.budget,
+          intercityDistance: await this.estimateIntercityDistance(request.departure, searchCity, trace, signal),
+        };
+        if (trip) {
+          const lastCity = trip.stops[trip.stops.length - 1].city;
+          budgetInput.returnDistance =
+            await this.estimateIntercityDistance(request.departure, lastCity, trace, signal) ?? 0;
+          budgetInput.stops = trip.stops;
+          budgetInput.transfers = trip.transfers;
         }
       }
 
       // 5. 调用大模型生成推荐内容
       let summary = '';
-      if (!this.config.mockMode && this.config.llmApiKey) {
+      let itinerary: Itinerary | null = null;
+      let llmMessages: LlmChatMessage[] = [];
+      let llmReply = '';
+      let promptTemplate: PromptTemplateRef | undefined;
+      if (!this.config.mockMode && this.llmService.isConfigured()) {
         try {
-          // 构建包含目的地信息和天气的上下文
+          // 出行需求由大模型服务根据请求字段构建，这里只补充天气与城际交通等上下文
           let context = '';
-          if (request.destination) {
-            context += `目的地: ${request.destination}`;
-          }
-          if (request.departure) {
-            context += context ? `, 出发地: ${request.departure}` : `出发地: ${request.departure}`;
+          const weatherParts: string[] = [];
+
+          if (trip) {
+            context = `行程路线: ${formatTripRoute(trip.stops)}`;
+            if (trip.transfers.length > 0) {
+              context += `, 城际交通: ${trip.transfers.map(t => `第${t.day}天 ${formatTransfer(t)}`).join('; ')}`;
+            }
+            const cityWeather = trip.stops
+              .map(stop => {
+                const text = this.formatWeatherContext(stop.weather ?? null);
+                return text ? `${stop.destination}（${text}）` : '';
+              })
+              .filter(text => text.length > 0);
+            if (cityWeather.length > 0) {
+              weatherParts.push(`各城市当前天气: ${cityWeather.join('; ')}`);
+            }
+          } else {
+            const currentWeather = this.formatWeatherContext(weather);
+            if (currentWeather) {
+              weatherParts.push(currentWeather);
+            }
           }
-          if (request.travelDate) {
-            context += context ? `, 出行日期: ${request.travelDate}` : `出行日期: ${request.travelDate}`;
+
+          const dayWeatherText = dayWeather ? buildDayWeatherContext(dayWeather) : '';
+          if (dayWeatherText) {
+            weatherParts.push(`逐日天气预报: ${dayWeatherText}`);
           }
-          if (request.location) {
-            context += context ? `, 当前位置: ${request.location}` : `当前位置: ${request.location}`;
+
+          if (nearbyOrigin) {
+            const nearbyText = `候选地点均在当前位置（${nearbyOrigin}）${NEARBY_RADIUS / 1000}公里内，已按距离由近到远排序`;
+            context += context ? `, ${nearbyText}` : nearbyText;
           }
-          
-          // 添加天气信息到上下文
-          if (weather) {
-            context += context ? `, 当前天气: ${weather.weather}, 温度: ${weather.temperature}°C` : 
-              `当前天气: ${weather.weather}, 温度: ${weather.temperature}°C`;
-            if (weather.winddirection && weather.windpower) {
-              context += `, 风向: ${weather.winddirection}, 风力: ${weather.windpower}`;
-            }
-            if (weather.humidity) {
-              context += `, 湿度: ${weather.humidity}%`;
+
+          // 开启路线规划时，提供候选地点之间的实际交通耗时供排程参考
+          if (this.shouldPlanRoutes(options)) {
+            const routeText = await this.buildRouteReference(pois, searchCity, trip, request, trace, signal);
+            if (routeText) {
+              context += context ? `, 参考交通耗时: ${routeText}` : `参考交通耗时: ${routeText}`;
             }
           }
-          
-          // 添加天气预报到上下文
-          if (weatherForecast && weatherForecast.length > 0) {
-            const forecastText = weatherForecast.map(f => 
-              `${f.date}: 白天${f.dayweather} ${f.daytemp}°C, 夜间${f.nightweather} ${f.nighttemp}°C`
-            ).join('; ');
-            context += context ? `, 未来天气: ${forecastText}` : `未来天气: ${forecastText}`;
+
+          // 预算约束
+          if (budgetInput) {
+            const constraint = buildBudgetConstraint(budgetInput);
+            context += context ? `, 预算约束: ${constraint}` : `预算约束: ${constraint}`;
           }
           
-          summary = await this.llmService.generateRecommendation(
-            request.query,
-            pois,
-            context || undefined
-          );
+          // 按查询意图选择场景模板，模板ID和版本记录在结果中，便于对比不同版本的提示词
+          const promptInput: PromptInput = {
+            scenario: selectPromptScenario(request, intent),
+            context: context || undefined,
+            weather: weatherParts.join(', ') || undefined,
+          };
+          const prompt = trace.spanSync('buildPrompt', { scenario: promptInput.scenario, pois: pois.length },
+            () => this.llmService.buildPrompt(request, pois, promptInput),
+            value => `${value.template.id} v${value.template.version}`);
+          llmMessages = prompt.messages;
+          promptTemplate = prompt.template;
+          llmReply = await this.callLlm(llmMessages, trace, onPartial, signal);
+          // 优先解析为结构化行程，解析失败时直接展示原始文本
+          itinerary = await this.decorateItinerary(this.parseReply(llmReply, pois, trace), pois, request, searchCity,
+            trip, trace, signal);
+          summary = itinerary ? formatItinerary(itinerary) : llmReply;
+          const unverified = itinerary ? unverifiedPlaces(itinerary) : [];
+          if (unverified.length > 0) {
+            warnings.push(unverifiedPlaceIssue(unverified));
+          }
         } catch (error) {
-          const err = error as Error;
-          console.warn('大模型调用失败，使用默认摘要:', err);
-          // 如果是超时错误，在摘要中提示用户
-          if (err.message.includes('Timeout') || err.message.includes('超时')) {
-            summary = this.generateDefaultSummary(pois, request.query) + 
-              '\n\n（注：AI推荐生成超时，已显示基础推荐列表）';
-          } else {
-            summary = this.generateDefaultSummary(pois, request.query);
+          // 取消时不再降级为默认摘要，交给外层返回取消结果
+          if (signal?.aborted) {
+            throw error as Error;
           }
+          const issue = issueFromError(error);
+          hilog.warn(DOMAIN, TAG, '[%{public}s] 大模型调用失败（%{public}s），使用默认摘要: %{public}s', trace.id,
+            issue.kind, (error as Error).message);
+          addIssue(warnings, issue);
+          // 在摘要中提示用户失败原因
+          summary = this.generateDefaultSummary(pois, request.query) +
+            `\n\n（注：${issue.kind === 'timeout' ? 'AI推荐生成超时' : issue.message}，已显示基础推荐列表）`;
         }
       } else {
         summary = this.generateDefaultSummary(pois, request.query);
       }
 
-      return {
+      const result: RecommendationResult = {
         summary,
         items: pois,
         fromMock: this.config.mockMode || false,
         weather: weather || undefined,
         weatherForecast: weatherForecast || undefined,
+        dayWeather: dayWeather || undefined,
+        itinerary: itinerary || undefined,
+        budgetEstimate: budgetInput ? estimateBudget({ ...budgetInput, itinerary: itinerary || undefined }) : undefined,
+        stops: trip?.stops,
+        transfers: trip?.transfers,
+        nearbyOrigin,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        promptTemplate,
       };
+
+      // 大模型生成成功时建立对话会话，支持后续多轮调整
+      if (llmReply) {
+        const session = new ConversationSession(request, searchCity, pois, llmMessages, llmReply, result,
+          searchedKeywords);
+        result.sessionId = session.id;
+        this.saveSession(session);
+      }
+      this.amapCache?.logStats();
+      return this.finishTrace(trace, result);
     } catch (error) {
-      const err = error as Error;
-      return {
-        summary: `获取推荐失败: ${err.message}`,
+      const issue = issueFromError(error);
+      return this.finishTrace(trace, {
+        summary: `获取推荐失败: ${issue.message}`,
         items: [],
         fromMock: false,
-      };
+        error: issue,
+      }, error);
+    }
+  }
+
+  /**
+   * 在已生成的行程基础上按用户指令进行调整（多轮对话）
+   * 指令中出现新的地点类别时会补充搜索POI
+   * @param sessionId getRecommendations 返回的会话ID
+   * @param instruction 调整指令，如"第二天下午换成博物馆"
+   * @param signal 可选，取消信号
+   */
+  async refine(
+    sessionId: string,
+    instruction: string,
+    onPartial?: (partialSummary: string) => void,
+    signal?: HttpAbortSignal
+  ): Promise<RecommendationResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('会话不存在或已过期，请重新生成行程');
+    }
+    const text = instruction.trim();
+    if (!text) {
+      throw new Error('请输入调整要求');
+    }
+
+    const trace = new Trace('refine');
+    try {
+      return this.finishTrace(trace, await this.refineSession(session, text, trace, onPartial, signal));
+    } catch (error) {
+      this.traces?.add(trace.finish(error));
+      throw error;
+    }
+  }
+
+  private async refineSession(
+    session: ConversationSession,
+    text: string,
+    trace: Trace,
+    onPartial?: (partialSummary: string) => void,
+    signal?: HttpAbortSignal
+  ): Promise<RecommendationResult> {
+    const startIndex = session.pois.length;
+    const refinePois = await this.searchRefinePois(session, text, trace, signal);
+    const newPois = classifyPois(refinePois.pois);
+    const keywords = refinePois.keywords;
+    const allPois = [...session.pois, ...newPois];
+
+    const options = session.request.options ?? {};
+    const trip = this.tripOf(session.result);
+    const userMessage = this.llmService.buildRefineMessage(text, newPois, startIndex, options, !!trip);
+    const budget = (this.config.llmContextTokens || 16000) - LLM_MAX_TOKENS;
+    const reply = await this.callLlm(session.buildMessages(userMessage, budget), trace, onPartial, signal);
+
+    const itinerary = await this.decorateItinerary(this.parseReply(reply, allPois, trace), allPois, session.request,
+      session.searchCity, trip, trace, signal);
+    // 地点核实的警告按调整后的行程重新生成，其余警告（如天气不可用）保留
+    const warnings = (session.result.warnings ?? []).filter(issue => issue.kind !== 'unverified_place');
+    const unverified = itinerary ? unverifiedPlaces(itinerary) : [];
+    if (unverified.length > 0) {
+      warnings.push(unverifiedPlaceIssue(unverified));
+    }
+    const result: RecommendationResult = {
+      ...session.result,
+      summary: itinerary ? formatItinerary(itinerary) : reply,
+      items: allPois,
+      itinerary: itinerary || undefined,
+      sessionId: session.id,
+      budgetEstimate: this.reestimateBudget(session, allPois, itinerary),
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+
+    session.pois = allPois;
+    keywords.forEach(k => session.markSearched(k));
+    session.appendTurn(userMessage, reply, result);
+    this.amapCache?.logStats();
+    return result;
+  }
+
+  /**
+   * 按用户选择的可选功能补充行程信息（地图链接、实际路线），多目的地行程补充每天所在城市和换城交通
+   * 先核实行程中的地点，确认存在的地点才有坐标，用于地图链接和路线规划
+   * @param pois 发送给大模型的POI列表
+   */
+  private async decorateItinerary(
+    itinerary: Itinerary | null,
+    pois: PoiItem[],
+    request: RecommendationRequest,
+    city: string,
+    trip: TripPlan | null,
+    trace: Trace,
+    signal?: HttpAbortSignal
+  ): Promise<Itinerary | null> {
+    if (!itinerary) {
+      return itinerary;
+    }
+    if (trip) {
+      annotateItineraryStops(itinerary, trip);
+    }
+    await this.verifyPlaces(itinerary, pois, city, trace, signal);
+    const options = request.options ?? {};
+    if (options.generateMapLink) {
+      for (const day of itinerary.days) {
+        for (const slot of day.slots) {
+          if (slot.location) {
+            slot.mapUrl = buildAmapMarkerUrl(slot.location, slot.name);
+          }
+        }
+      }
+    }
+    if (this.shouldPlanRoutes(options)) {
+      for (const day of itinerary.days) {
+        const dayCity = trip ? stopForDay(trip.stops, day.day)?.city ?? city : city;
+        await trace.span('amap.planDayRoutes', { day: day.day, city: dayCity, stops: day.slots.length },
+          () => this.routePlanner.planDay(day, dayCity, this.prefersDriving(request), signal),
+          () => `${day.legs?.length ?? 0}段路线`);
+      }
     }
+    return itinerary;
   }
 
   /**
-   * 解析用户查询，提取关键词和城市
-   */
-  private parseQuery(query: string, defaultCity?: string): { keywords: string; city: string } {
-    // 优先使用传入的默认城市（应该是目的地）
-    let city = defaultCity || this.config.defaultCity || '北京';
-    let keywords = query.trim();
-
-    // 如果已经提供了defaultCity，就不从查询中提取城市，直接使用
-    // 如果没有提供defaultCity，才尝试从查询中提取目的地城市
-    if (!defaultCity) {
-      // 先提取出发地信息，避免误提取
-      const departureMatch = query.match(/从([^，,]+)出发/);
-      const departureCity = departureMatch ? departureMatch[1].trim() : '';
-      
-      // 尝试从查询中提取目的地城市（排除出发地）
-      const cityPatterns = [
-        /(?:我想去|去|在|到|玩)([^玩天日出发，,]+?)(?:玩|旅游|一日游|两日游|三日游|出发)/,
-        /([^今明后出发，,]+?)(?:一日游|两日游|三日游)/,
-      ];
-
-      for (const pattern of cityPatterns) {
-        const match = query.match(pattern);
-        if (match && match[1]) {
-          const extractedCity = match[1].trim();
-          // 排除出发地和无效城市名
-          if (extractedCity.length <= 4 && 
-              extractedCity !== departureCity &&
-              !extractedCity.includes('出发') && 
-              !extractedCity.includes('从')) {
-            city = extractedCity;
-            keywords = query.replace(new RegExp(`(?:我想去|去|在|到|玩)?${extractedCity}(?:玩|旅游|一日游|两日游|三日游)?`), '').trim();
-            break;
+   * 将行程中的地点与POI列表比对，不在列表中的在当日所在城市搜索同名地点，找到的标记为已确认
+   * 同一城市的同名地点只搜索一次，最多搜索 MAX_PLACE_LOOKUPS 个，其余保留为待核实
+   */
+  private async verifyPlaces(
+    itinerary: Itinerary,
+    pois: PoiItem[],
+    city: string,
+    trace: Trace,
+    signal?: HttpAbortSignal
+  ): Promise<void> {
+    const unmatched = groundItinerary(itinerary, pois);
+    if (unmatched.length === 0 || !this.amapEnabled()) {
+      return;
+    }
+    const lookups = new Map<string, PoiItem[]>();
+    for (const mention of unmatched) {
+      const placeCity = mention.city ?? city;
+      const key = `${placeCity}:${mention.name}`;
+      let candidates = lookups.get(key);
+      if (!candidates) {
+        if (lookups.size >= MAX_PLACE_LOOKUPS) {
+          continue;
+        }
+        try {
+          candidates = await trace.span('amap.verifyPlace', { name: mention.name, city: placeCity },
+            () => this.amapService.searchPoiPaged({ keywords: mention.name, cityLimit: true }, placeCity,
+              PLACE_LOOKUP_SIZE, signal), countPois);
+        } catch (error) {
+          if (signal?.aborted) {
+            throw error as Error;
           }
+          hilog.warn(DOMAIN, TAG, '[%{public}s] 地点核实失败（%{public}s），保留为待核实: %{public}s', trace.id,
+            mention.name, (error as Error).message);
+          candidates = [];
+        }
+        lookups.set(key, candidates);
+      }
+      resolveMention(mention, candidates);
+    }
+  }
+
+  private tripOf(result: RecommendationResult): TripPlan | null {
+    return result.stops && result.stops.length > 1 ? { stops: result.stops, transfers: result.transfers ?? [] } : null;
+  }
+
+  /**
+   * 按分组搜索单个城市的POI，组内按得分排序后按配额合并，再去重并保证类别多样
+   * 单组失败时跳过该组，结果太少时补充通用景点
+   * @param limit 该城市最多保留的POI数
+   */
+  private async searchCityPois(
+    groups: PoiSearchGroup[],
+    city: string,
+    limit: number,
+    ranking: RankingContext,
+    issues: RecommendationIssue[],
+    trace: Trace,
+    signal?: HttpAbortSignal
+  ): Promise<PoiItem[]> {
+    const maxResults = this.config.poiSearchLimit ?? DEFAULT_POI_SEARCH_LIMIT;
+    const results: PoiItem[][] = [];
+    for (const group of groups) {
+      try {
+        const found = await trace.span('amap.searchPoi',
+          { group: group.label, city, keywords: group.query.keywords, types: group.query.types, limit: maxResults },
+          () => this.amapService.searchPoiPaged(group.query, city, maxResults, signal), countPois);
+        results.push(scorePois(found, ranking));
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error as Error;
         }
+        hilog.warn(DOMAIN, TAG, '[%{public}s] 高德API调用失败（%{public}s），跳过该类别: %{public}s',
+          trace.id, group.label, (error as Error).message);
+        addIssue(issues, issueFromError(error));
+        results.push([]);
       }
     }
+    let pois = selectPois(mergeByQuota(results, limit * CANDIDATE_FACTOR), limit);
 
-    // 清理关键词，移除出发地信息
-    keywords = keywords.replace(/从[^，,]+出发/g, '').trim();
-    keywords = keywords.replace(/，从[^，,]+出发/g, '').trim();
-    keywords = keywords.replace(/我想去/g, '').trim();
+    // 如果分类搜索结果太少，尝试使用更通用的关键词
+    if (pois.length < 5) {
+      try {
+        const fallbackPois = await trace.span('amap.searchPoi', { group: '通用景点', city, keywords: '景点' },
+          () => this.amapService.searchPoi('景点', city, signal), countPois);
+        pois = rankPois([...pois, ...fallbackPois], ranking, limit);
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error as Error;
+        }
+        hilog.warn(DOMAIN, TAG, '[%{public}s] 高德API调用失败，使用已有结果: %{public}s', trace.id,
+          (error as Error).message);
+        addIssue(issues, issueFromError(error));
+      }
+    }
+    return pois;
+  }
 
-    // 如果没有提取到关键词，使用通用搜索词
-    if (!keywords || keywords.length < 2) {
-      keywords = '景点 旅游';
+  /**
+   * 按分组搜索当前位置附近的POI，组内按得分排序后按配额合并并筛选，最终按距离由近到远排序
+   * 单组失败时跳过该组
+   */
+  private async searchNearbyPois(
+    groups: PoiSearchGroup[],
+    location: string,
+    limit: number,
+    ranking: RankingContext,
+    issues: RecommendationIssue[],
+    trace: Trace,
+    signal?: HttpAbortSignal
+  ): Promise<PoiItem[]> {
+    const results: PoiItem[][] = [];
+    for (const group of groups) {
+      try {
+        const found = await trace.span('amap.searchAround', {
+          group: group.label,
+          location,
+          radius: NEARBY_RADIUS,
+          keywords: group.query.keywords,
+          types: group.query.types,
+        }, () => this.amapService.searchAround(location, NEARBY_RADIUS, group.query.types, group.query.keywords,
+          signal), countPois);
+        results.push(scorePois(found, ranking));
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error as Error;
+        }
+        hilog.warn(DOMAIN, TAG, '[%{public}s] 周边搜索失败（%{public}s），跳过该类别: %{public}s',
+          trace.id, group.label, (error as Error).message);
+        addIssue(issues, issueFromError(error));
+        results.push([]);
+      }
     }
+    return selectPois(mergeByQuota(results, limit * CANDIDATE_FACTOR), limit)
+      .sort((a, b) => (a.distance ?? Number.MAX_VALUE) - (b.distance ?? Number.MAX_VALUE));
+  }
 
-    // 处理常见查询模式
-    if (keywords.includes('吃什么') || keywords.includes('餐厅') || keywords.includes('美食')) {
-      keywords = '餐厅 美食';
-    } else if (keywords.includes('玩什么') || keywords.includes('景点') || keywords.includes('旅游')) {
-      keywords = '景点 旅游';
-    } else if (keywords.includes('咖啡') || keywords.includes('咖啡店')) {
-      keywords = '咖啡店';
+  /**
+   * 查询城市实况天气和预报，失败时返回空并记录警告
+   */
+  private async fetchWeather(
+    city: string,
+    warnings: RecommendationIssue[],
+    trace: Trace,
+    signal?: HttpAbortSignal
+  ): Promise<{ weather: WeatherInfo | null; forecast: WeatherForecast[] | null }> {
+    try {
+      // 先获取城市编码，然后复用给两个天气查询，避免重复查询
+      const cityAdcode = await trace.span('amap.cityAdcode', { city },
+        () => this.amapService.getCityAdcode(city, signal), value => value ?? '无结果');
+      const adcode = cityAdcode ?? undefined;
+      const weather = await trace.span('amap.weather', { city, adcode },
+        () => this.amapService.getWeather(city, cityAdcode, signal), value => value?.weather ?? '无结果');
+      const forecast = await trace.span('amap.forecast', { city, adcode },
+        () => this.amapService.getWeatherForecast(city, cityAdcode, signal), value => `${value?.length ?? 0}天`);
+      return { weather, forecast };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error as Error;
+      }
+      hilog.warn(DOMAIN, TAG, '[%{public}s] 天气查询失败，继续生成推荐: %{public}s', trace.id,
+        (error as Error).message);
+      addIssue(warnings, issueFromError(error));
+      return { weather: null, forecast: null };
+    }
+  }
+
+  /**
+   * 将实况天气整理为大模型上下文文本（预报按出行日期逐日匹配，见 alignWeather）
+   */
+  private formatWeatherContext(weather: WeatherInfo | null): string {
+    const parts: string[] = [];
+    if (weather) {
+      parts.push(`当前天气: ${weather.weather}, 温度: ${weather.temperature}°C`);
+      if (weather.winddirection && weather.windpower) {
+        parts.push(`风向: ${weather.winddirection}, 风力: ${weather.windpower}`);
+      }
+      if (weather.humidity) {
+        parts.push(`湿度: ${weather.humidity}%`);
+      }
     }
+    return parts.join(', ');
+  }
 
-    return { keywords, city };
+  /**
+   * 解析出行日期并为行程每天匹配天气预报，没有出行日期时各天均为 unknown
+   */
+  private alignWeather(
+    request: RecommendationRequest,
+    city: string,
+    stops: TripStopResult[],
+    forecast: WeatherForecast[] | null
+  ): DayWeather[] {
+    const range = request.dateRange ??
+      (request.travelDate ? parseDateRange(request.travelDate, new Date(), request.travelDays) : undefined);
+    const days = request.travelDays ?? (range ? dateRangeDays(range) : 1);
+    return alignDayWeather(range?.start, days, day => {
+      const stop = stops.length > 0 ? stopForDay(stops, day) : undefined;
+      return stop
+        ? { city: stop.city, forecast: stop.weatherForecast }
+        : { city, forecast: forecast ?? undefined };
+    });
+  }
+
+  /**
+   * 规划多目的地行程相邻两站之间的城际交通，规划失败的路段只保留站点信息并记录警告
+   */
+  private async planTransfers(
+    stops: TripStopResult[],
+    request: RecommendationRequest,
+    warnings: RecommendationIssue[],
+    trace: Trace,
+    signal?: HttpAbortSignal
+  ): Promise<IntercityTransfer[]> {
+    const transfers: IntercityTransfer[] = [];
+    for (let i = 1; i < stops.length; i++) {
+      const from = stops[i - 1];
+      const to = stops[i];
+      if (!this.amapEnabled()) {
+        transfers.push({ day: to.startDay, from: from.destination, to: to.destination });
+        continue;
+      }
+      try {
+        transfers.push(await trace.span('amap.planTransfer', { from: from.destination, to: to.destination },
+          () => this.routePlanner.planTransfer(from, to, this.prefersDriving(request), signal),
+          transfer => transfer.leg ? formatTransfer(transfer) : '无路线'));
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error as Error;
+        }
+        hilog.warn(DOMAIN, TAG, '[%{public}s] 城际交通规划失败: %{public}s', trace.id, (error as Error).message);
+        addIssue(warnings, issueFromError(error));
+        transfers.push({ day: to.startDay, from: from.destination, to: to.destination });
+      }
+    }
+    return transfers;
+  }
+
+  /**
+   * 候选地点之间的参考交通耗时，多目的地行程按城市分别计算
+   */
+  private async buildRouteReference(
+    pois: PoiItem[],
+    city: string,
+    trip: TripPlan | null,
+    request: RecommendationRequest,
+    trace: Trace,
+    signal?: HttpAbortSignal
+  ): Promise<string> {
+    const preferDriving = this.prefersDriving(request);
+    const reference = (cityPois: PoiItem[], cityName: string): Promise<string> =>
+      trace.span('amap.routeReference', { city: cityName, pois: cityPois.length },
+        () => this.routePlanner.buildReferenceContext(cityPois, cityName, preferDriving, signal),
+        text => text ? `${text.length}字` : '无结果');
+    if (!trip) {
+      return reference(pois, city);
+    }
+    const parts: string[] = [];
+    for (const stop of trip.stops) {
+      const text = await reference(pois.filter(poi => poi.city === stop.city), stop.city);
+      if (text) {
+        parts.push(text);
+      }
+    }
+    return parts.join('; ');
+  }
+
+  private wantsBudget(request: RecommendationRequest): boolean {
+    const range = request.budget;
+    return !!request.options?.generateBudget || (!!range && (range.min !== undefined || range.max !== undefined));
+  }
+
+  /**
+   * 多轮调整后按新行程重新估算预算，复用首次估算的城际距离
+   */
+  private reestimateBudget(
+    session: ConversationSession,
+    pois: PoiItem[],
+    itinerary: Itinerary | null
+  ): BudgetEstimate | undefined {
+    if (!this.wantsBudget(session.request)) {
+      return undefined;
+    }
+    return estimateBudget({
+      city: session.searchCity,
+      days: session.request.travelDays ?? 1,
+      partySize: session.request.partySize ?? 1,
+      pois,
+      itinerary: itinerary || undefined,
+      range: session.request.budget,
+      intercityDistance: session.result.budgetEstimate?.intercityDistance,
+      returnDistance: session.result.budgetEstimate?.returnDistance,
+      stops: session.result.stops,
+      transfers: session.result.transfers,
+    });
+  }
+
+  /**
+   * 通过地理编码估算出发地与目的地之间的直线距离，同城或无法定位时返回undefined
+   */
+  private async estimateIntercityDistance(
+    departure: string | undefined,
+    city: string,
+    trace: Trace,
+    signal?: HttpAbortSignal
+  ): Promise<number | undefined> {
+    if (!departure || departure === city || !this.amapEnabled()) {
+      return undefined;
+    }
+    const geocode = (address: string) => trace.span('amap.geocode', { address },
+      () => this.amapService.geocode(address, address, signal), value => value ? value.location : '无结果');
+    try {
+      const from = await geocode(departure);
+      signal?.throwIfAborted();
+      const to = await geocode(city);
+      if (!from || !to) {
+        return undefined;
+      }
+      const distance = distanceBetween(from.location, to.location);
+      return Number.isFinite(distance) ? Math.round(distance) : undefined;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error as Error;
+      }
+      hilog.warn(DOMAIN, TAG, '[%{public}s] 城际距离估算失败: %{public}s', trace.id, (error as Error).message);
+      return undefined;
+    }
+  }
+
+  /**
+   * 非Mock模式且已填写高德地图密钥时才调用高德接口
+   */
+  private amapEnabled(): boolean {
+    return !this.config.mockMode && !!this.secrets.getSecret('amapKey');
+  }
+
+  private shouldPlanRoutes(options: RecommendationOptions): boolean {
+    return !!options.routePlanning && this.amapEnabled();
+  }
+
+  private prefersDriving(request: RecommendationRequest): boolean {
+    return !!request.interests?.includes('drive');
+  }
+
+  /**
+   * 调用大模型，传入 onPartial 且配置允许时使用流式输出
+   */
+  private async callLlm(
+    messages: LlmChatMessage[],
+    trace: Trace,
+    onPartial?: (partialSummary: string) => void,
+    signal?: HttpAbortSignal
+  ): Promise<string> {
+    const stream = !!onPartial && this.config.llmStream !== false;
+    const params: TraceParams = {
+      provider: this.config.llmProvider ?? 'dashscope',
+      model: this.config.llmModel,
+      stream,
+      messages: messages.length,
+      promptChars: messages.reduce((sum, message) => sum + message.content.length, 0),
+    };
+    return trace.span('llm.complete', params, () => {
+      if (onPartial && stream) {
+        return this.llmService.completeStream(messages,
+          (_delta: string, accumulated: string) => onPartial(previewItinerary(accumulated)), signal);
+      }
+      return this.llmService.complete(messages, signal);
+    }, reply => `${reply.length}字`);
+  }
+
+  /**
+   * 将大模型回复解析为结构化行程，解析失败时返回null
+   */
+  private parseReply(reply: string, pois: PoiItem[], trace: Trace): Itinerary | null {
+    return trace.spanSync('parseItinerary', { replyChars: reply.length }, () => parseItinerary(reply, pois),
+      itinerary => itinerary ? `${itinerary.days.length}天` : '非结构化回复');
+  }
+
+  /**
+   * 结束追踪并保存记录，结果中带上追踪ID
+   */
+  private finishTrace(trace: Trace, result: RecommendationResult, error?: unknown): RecommendationResult {
+    result.traceId = trace.id;
+    this.traces?.add(trace.finish(error));
+    return result;
+  }
+
+  /**
+   * 根据调整指令中出现的新类别补充搜索POI，返回去重后的新增POI和本次搜索的关键词
+   */
+  private async searchRefinePois(
+    session: ConversationSession,
+    instruction: string,
+    trace: Trace,
+    signal?: HttpAbortSignal
+  ): Promise<{ pois: PoiItem[]; keywords: string[] }> {
+    const found: PoiItem[] = [];
+    const keywords: string[] = [];
+    if (!this.amapEnabled()) {
+      return { pois: found, keywords };
+    }
+
+    const existingKeys = new Set(session.pois.map(poiKey));
+    const ranking: RankingContext = { interests: session.request.interests ?? [], categories: [] };
+    // 多目的地行程在每个城市都补充搜索
+    const cities = session.result.stops && session.result.stops.length > 1
+      ? session.result.stops.map(stop => stop.city)
+      : [session.searchCity];
+    for (const category of REFINE_CATEGORIES) {
+      if (!category.pattern.test(instruction) || session.hasSearched(category.keywords)) {
+        continue;
+      }
+      for (const city of cities) {
+        try {
+          const results = await trace.span('amap.searchPoi', { group: '调整补充', city, keywords: category.keywords },
+            () => this.amapService.searchPoi(category.keywords, city, signal), countPois);
+          const fresh = results.filter(poi => !existingKeys.has(poiKey(poi)));
+          for (const poi of rankPois(fresh, ranking, 10)) {
+            existingKeys.add(poiKey(poi));
+            found.push(poi);
+          }
+        } catch (error) {
+          if (signal?.aborted) {
+            throw error as Error;
+          }
+          hilog.warn(DOMAIN, TAG, '[%{public}s] 调整行程时补充搜索POI失败: %{public}s', trace.id,
+            (error as Error).message);
+        }
+      }
+      keywords.push(category.keywords);
+    }
+    return { pois: found, keywords };
+  }
+
+  private saveSession(session: ConversationSession): void {
+    if (this.sessions.size >= MAX_SESSIONS) {
+      let oldest: ConversationSession | undefined;
+      for (const item of this.sessions.values()) {
+        if (!oldest || item.updatedAt < oldest.updatedAt) {
+          oldest = item;
+        }
+      }
+      if (oldest) {
+        this.sessions.delete(oldest.id);
+      }
+    }
+    this.sessions.set(session.id, session);
   }
 
   /**
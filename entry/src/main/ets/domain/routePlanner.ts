@@ -0,0 +1,222 @@
+import { AmapService } from '../services/amapService';
+import type {
+  IntercityTransfer,
+  ItineraryDay,
+  PoiItem,
+  RouteLeg,
+  TravelMode,
+  TripStopResult
+} from '../services/types';
+import type { HttpAbortSignal } from '../common/httpClient';
+
+// 直线距离低于该值时步行前往（米）
+const WALKING_MAX_DISTANCE = 1500;
+// 行程生成前用于参考的路线数量上限
+const MAX_REFERENCE_LEGS = 6;
+// 每天最多规划的路线段数
+const MAX_LEGS_PER_DAY = 6;
+
+const MODE_LABELS: Record<TravelMode, string> = {
+  walking: '步行',
+  driving: '驾车',
+  transit: '公交/地铁',
+  bicycling: '骑行',
+};
+
+interface Stop {
+  name: string;
+  location: string;
+}
+
+function parseLocation(location: string): [number, number] | null {
+  const parts = location.split(',').map(Number);
+  if (parts.length !== 2 || parts.some(n => !Number.isFinite(n))) {
+    return null;
+  }
+  return [parts[0], parts[1]];
+}
+
+/**
+ * 计算两个坐标之间的球面直线距离（米），坐标无效时返回Infinity
+ */
+export function distanceBetween(a: string, b: string): number {
+  const p1 = parseLocation(a);
+  const p2 = parseLocation(b);
+  if (!p1 || !p2) {
+    return Infinity;
+  }
+  const rad = Math.PI / 180;
+  const dLat = (p2[1] - p1[1]) * rad;
+  const dLng = (p2[0] - p1[0]) * rad;
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(p1[1] * rad) * Math.cos(p2[1] * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+export function travelModeLabel(mode: TravelMode): string {
+  return MODE_LABELS[mode];
+}
+
+/**
+ * 将路线段格式化为简短描述，如"公交/地铁约25分钟（6.2公里，约3元）"
+ */
+export function formatLeg(leg: RouteLeg): string {
+  const minutes = Math.max(1, Math.round(leg.duration / 60));
+  const distance = leg.distance >= 1000 ? `${(leg.distance / 1000).toFixed(1)}公里` : `${leg.distance}米`;
+  const cost = leg.cost ? `，约${leg.cost}元` : '';
+  return `${MODE_LABELS[leg.mode]}约${minutes}分钟（${distance}${cost}）`;
+}
+
+/**
+ * 路线规划：为行程中相邻地点计算实际交通路线
+ */
+export class RoutePlanner {
+  private amapService: AmapService;
+
+  constructor(amapService: AmapService) {
+    this.amapService = amapService;
+  }
+
+  /**
+   * 根据直线距离和偏好选择出行方式
+   */
+  chooseMode(origin: string, destination: string, preferDriving: boolean): TravelMode {
+    if (distanceBetween(origin, destination) <= WALKING_MAX_DISTANCE) {
+      return 'walking';
+    }
+    return preferDriving ? 'driving' : 'transit';
+  }
+
+  /**
+   * 规划两个地点之间的路线，公交无方案时回退为驾车
+   */
+  async planLeg(
+    from: Stop,
+    to: Stop,
+    city: string,
+    preferDriving: boolean,
+    signal?: HttpAbortSignal
+  ): Promise<RouteLeg | null> {
+    const mode = this.chooseMode(from.location, to.location, preferDriving);
+    let leg = await this.amapService.getRoute(mode, from.location, to.location, city, signal);
+    if (!leg && mode === 'transit') {
+      leg = await this.amapService.getDrivingRoute(from.location, to.location, signal);
+    }
+    if (!leg) {
+      return null;
+    }
+    leg.fromName = from.name;
+    leg.toName = to.name;
+    return leg;
+  }
+
+  /**
+   * 行程生成前，按就近顺序串联候选POI并查询实际交通耗时，作为大模型排程参考
+   * @returns 参考文本，没有可用路线时返回空字符串
+   */
+  async buildReferenceContext(
+    pois: PoiItem[],
+    city: string,
+    preferDriving: boolean,
+    signal?: HttpAbortSignal
+  ): Promise<string> {
+    const candidates = pois
+      .filter((poi): poi is PoiItem & Stop => !!poi.location)
+      .slice(0, MAX_REFERENCE_LEGS + 1);
+    if (candidates.length < 2) {
+      return '';
+    }
+
+    // 最近邻排序，尽量让参考路线贴近实际游览顺序
+    const ordered: Stop[] = [candidates[0]];
+    const remaining = candidates.slice(1);
+    while (remaining.length > 0) {
+      const last = ordered[ordered.length - 1];
+      let nearest = 0;
+      for (let i = 1; i < remaining.length; i++) {
+        if (distanceBetween(last.location, remaining[i].location) <
+          distanceBetween(last.location, remaining[nearest].location)) {
+          nearest = i;
+        }
+      }
+      ordered.push(remaining.splice(nearest, 1)[0]);
+    }
+
+    const lines: string[] = [];
+    for (let i = 0; i < ordered.length - 1; i++) {
+      const leg = await this.planLeg(ordered[i], ordered[i + 1], city, preferDriving, signal);
+      if (leg) {
+        lines.push(`${ordered[i].name} → ${ordered[i + 1].name}：${formatLeg(leg)}`);
+      }
+    }
+    return lines.join('; ');
+  }
+
+  /**
+   * 为一天内相邻的地点规划实际路线，写入 day.legs 并用实际数据更新 slot.transport
+   * @param city 当天所在城市（公交规划使用），多目的地行程按天传入不同城市
+   */
+  async planDay(
+    day: ItineraryDay,
+    city: string,
+    preferDriving: boolean,
+    signal?: HttpAbortSignal
+  ): Promise<void> {
+    const legs: RouteLeg[] = [];
+    for (let i = 1; i < day.slots.length && legs.length < MAX_LEGS_PER_DAY; i++) {
+      const prev = day.slots[i - 1];
+      const current = day.slots[i];
+      if (!prev.location || !current.location) {
+        continue;
+      }
+      const leg = await this.planLeg(
+        { name: prev.name, location: prev.location },
+        { name: current.name, location: current.location },
+        city,
+        preferDriving,
+        signal
+      );
+      if (leg) {
+        legs.push(leg);
+        current.transport = formatLeg(leg);
+      }
+    }
+    if (legs.length > 0) {
+      day.legs = legs;
+    }
+  }
+
+  /**
+   * 规划相邻两站之间的城际交通：按城市中心定位，公交（含铁路）无方案或偏好自驾时使用驾车路线
+   * 找不到城市位置时只返回站点信息，定位调用失败时抛出 AmapError
+   */
+  async planTransfer(
+    from: TripStopResult,
+    to: TripStopResult,
+    preferDriving: boolean,
+    signal?: HttpAbortSignal
+  ): Promise<IntercityTransfer> {
+    const transfer: IntercityTransfer = { day: to.startDay, from: from.destination, to: to.destination };
+    const origin = await this.amapService.geocode(from.destination, from.city, signal);
+    const destination = await this.amapService.geocode(to.destination, to.city, signal);
+    if (!origin || !destination) {
+      return transfer;
+    }
+    const distance = distanceBetween(origin.location, destination.location);
+    if (Number.isFinite(distance)) {
+      transfer.distance = Math.round(distance);
+    }
+
+    let leg = preferDriving ? null :
+      await this.amapService.getTransitRoute(origin.location, destination.location, from.city, to.city, signal);
+    if (!leg) {
+      leg = await this.amapService.getDrivingRoute(origin.location, destination.location, signal);
+    }
+    if (leg) {
+      leg.fromName = from.destination;
+      leg.toName = to.destination;
+      transfer.leg = leg;
+    }
+    return transfer;
+  }
+}
@@ -0,0 +1,404 @@
+import type { DateRange } from '../services/types';
+
+export type HolidayName = '元旦' | '春节' | '清明节' | '劳动节' | '端午节' | '中秋节' | '国庆节';
+
+/**
+ * 一个节假日的放假安排（本地日期，YYYY-MM-DD）
+ */
+export interface HolidaySchedule {
+  name: HolidayName;
+  start: string;
+  end: string;
+  workdays: string[]; // 调休上班的日期
+  estimated?: boolean; // 表中没有该年份的安排，按公历或农历日期推算，不含调休
+}
+
+/**
+ * 表单中节假日快捷选择的顺序
+ */
+export const HOLIDAY_NAMES: HolidayName[] = ['春节', '清明节', '劳动节', '端午节', '中秋节', '国庆节', '元旦'];
+
+/**
+ * 国务院办公厅公布的放假安排，每年底公布次年安排后补充
+ */
+const HOLIDAY_TABLE: Record<number, HolidaySchedule[]> = {
+  2025: [
+    { name: '元旦', start: '2025-01-01', end: '2025-01-01', workdays: [] },
+    { name: '春节', start: '2025-01-28', end: '2025-02-04', workdays: ['2025-01-26', '2025-02-08'] },
+    { name: '清明节', start: '2025-04-04', end: '2025-04-06', workdays: [] },
+    { name: '劳动节', start: '2025-05-01', end: '2025-05-05', workdays: ['2025-04-27'] },
+    { name: '端午节', start: '2025-05-31', end: '2025-06-02', workdays: [] },
+    // 2025年中秋与国庆连休
+    { name: '中秋节', start: '2025-10-01', end: '2025-10-08', workdays: ['2025-09-28', '2025-10-11'] },
+    { name: '国庆节', start: '2025-10-01', end: '2025-10-08', workdays: ['2025-09-28', '2025-10-11'] },
+  ],
+  2026: [
+    { name: '元旦', start: '2026-01-01', end: '2026-01-03', workdays: ['2026-01-04'] },
+    { name: '春节', start: '2026-02-15', end: '2026-02-23', workdays: ['2026-02-14', '2026-02-28'] },
+    { name: '清明节', start: '2026-04-04', end: '2026-04-06', workdays: [] },
+    { name: '劳动节', start: '2026-05-01', end: '2026-05-05', workdays: ['2026-05-09'] },
+    { name: '端午节', start: '2026-06-19', end: '2026-06-21', workdays: [] },
+    { name: '中秋节', start: '2026-09-25', end: '2026-09-27', workdays: [] },
+    { name: '国庆节', start: '2026-10-01', end: '2026-10-07', workdays: ['2026-09-20', '2026-10-10'] },
+  ],
+};
+
+// 公历日期固定的节假日，表中没有该年份时按此推算（月、日、天数）
+const FIXED_HOLIDAYS: Partial<Record<HolidayName, [number, number, number]>> = {
+  '元旦': [1, 1, 1],
+  '劳动节': [5, 1, 5],
+  '国庆节': [10, 1, 7],
+};
+
+// 农历节日，表中没有该年份时按此推算（农历月、日、放假开始相对节日的天数、天数），春节从除夕放到初七
+const LUNAR_HOLIDAYS: Partial<Record<HolidayName, [number, number, number, number]>> = {
+  '春节': [1, 1, -1, 8],
+  '端午节': [5, 5, 0, 1],
+  '中秋节': [8, 15, 0, 1],
+};
+
+// 农历数据起始年份的正月初一
+const LUNAR_BASE_YEAR = 2025;
+const LUNAR_BASE_NEW_YEAR = '2025-01-29';
+
+/**
+ * 2025-2100年的农历年数据：第0-3位为闰月月份（0表示无闰月），第4-15位依次为正月至十二月是否为大月（30天），
+ * 第16位为闰月是否为大月
+ */
+const LUNAR_YEARS: number[] = [
+  0x0a6e6, 0x0a4e0, 0x0d260, 0x0ea65, 0x0d530, 0x05aa0, 0x076a3, 0x096d0, 0x04afb, 0x04ad0,
+  0x0a4d0, 0x1d0b6, 0x0d250, 0x0d520, 0x0dd45, 0x0b5a0, 0x056d0, 0x055b2, 0x049b0, 0x0a577,
+  0x0a4b0, 0x0aa50, 0x1b255, 0x06d20, 0x0ada0, 0x14b63, 0x09370, 0x049f8, 0x04970, 0x064b0,
+  0x168a6, 0x0ea50, 0x06b20, 0x1a6c4, 0x0aae0, 0x092e0, 0x0d2e3, 0x0c960, 0x0d557, 0x0d4a0,
+  0x0da50, 0x05d55, 0x056a0, 0x0a6d0, 0x055d4, 0x052d0, 0x0a9b8, 0x0a950, 0x0b4a0, 0x0b6a6,
+  0x0ad50, 0x055a0, 0x0aba4, 0x0a5b0, 0x052b0, 0x0b273, 0x06930, 0x07337, 0x06aa0, 0x0ad50,
+  0x14b55, 0x04b60, 0x0a570, 0x054e4, 0x0d160, 0x0e968, 0x0d520, 0x0daa0, 0x16aa6, 0x056d0,
+  0x04ae0, 0x0a9d4, 0x0a4d0, 0x0d150, 0x0f252, 0x0d520,
+];
+
+// 查询中节假日的叫法
+const HOLIDAY_PATTERNS: Array<{ name: HolidayName; pattern: RegExp }> = [
+  { name: '春节', pattern: /春节|过年|除夕/ },
+  { name: '清明节', pattern: /清明/ },
+  { name: '劳动节', pattern: /劳动节|五一(?![点月日号天])/ },
+  { name: '端午节', pattern: /端午/ },
+  { name: '中秋节', pattern: /中秋/ },
+  { name: '国庆节', pattern: /国庆|十一(?![点月日号天])/ },
+  { name: '元旦', pattern: /元旦/ },
+];
+
+const WEEKDAY_NUMBERS: Record<string, number> = {
+  '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '日': 0, '天': 0,
+};
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export function formatDate(date: Date): string {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 解析 YYYY-MM-DD 为本地日期
+ */
+export function toDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * 日期加减天数
+ * @param date YYYY-MM-DD
+ * @returns YYYY-MM-DD
+ */
+export function addDays(date: string, days: number): string {
+  const value = toDate(date);
+  return formatDate(new Date(value.getFullYear(), value.getMonth(), value.getDate() + days));
+}
+
+/**
+ * 日期范围包含的天数（含首尾），没有结束日期时为1
+ */
+export function dateRangeDays(range: DateRange): number {
+  if (!range.end) {
+    return 1;
+  }
+  return Math.round((toDate(range.end).getTime() - toDate(range.start).getTime()) / DAY_MS) + 1;
+}
+
+function lunarMonthDays(info: number, month: number): number {
+  return (info & (0x10000 >> month)) !== 0 ? 30 : 29;
+}
+
+function lunarLeapDays(info: number): number {
+  if ((info & 0xf) === 0) {
+    return 0;
+  }
+  return (info & 0x10000) !== 0 ? 30 : 29;
+}
+
+function lunarYearDays(info: number): number {
+  let days = lunarLeapDays(info);
+  for (let month = 1; month <= 12; month++) {
+    days += lunarMonthDays(info, month);
+  }
+  return days;
+}
+
+/**
+ * 农历日期（非闰月）转换为公历，超出农历数据范围时返回undefined
+ * @returns YYYY-MM-DD
+ */
+export function lunarToSolar(year: number, month: number, day: number): string | undefined {
+  const index = year - LUNAR_BASE_YEAR;
+  if (index < 0 || index >= LUNAR_YEARS.length) {
+    return undefined;
+  }
+  let offset = 0;
+  for (let i = 0; i < index; i++) {
+    offset += lunarYearDays(LUNAR_YEARS[i]);
+  }
+  const info = LUNAR_YEARS[index];
+  for (let m = 1; m < month; m++) {
+    offset += lunarMonthDays(info, m);
+    if ((info & 0xf) === m) {
+      offset += lunarLeapDays(info);
+    }
+  }
+  return addDays(LUNAR_BASE_NEW_YEAR, offset + day - 1);
+}
+
+/**
+ * 清明节气日期（4月4日或5日），按节气通用公式计算，适用于2001-2099年
+ */
+function qingmingDate(year: number): string | undefined {
+  if (year < 2001 || year > 2099) {
+    return undefined;
+  }
+  const y = year % 100;
+  const day = Math.floor(y * 0.2422 + 4.81) - Math.floor(y / 4);
+  return formatDate(new Date(year, 3, day));
+}
+
+/**
+ * 推算表中没有的年份：公历节日按固定日期，农历节日按农历换算，清明按节气计算，均不含调休
+ */
+function estimateHoliday(name: HolidayName, year: number): HolidaySchedule | undefined {
+  const fixed = FIXED_HOLIDAYS[name];
+  if (fixed) {
+    const start = formatDate(new Date(year, fixed[0] - 1, fixed[1]));
+    return { name, start, end: addDays(start, fixed[2] - 1), workdays: [], estimated: true };
+  }
+  const lunar = LUNAR_HOLIDAYS[name];
+  const festival = lunar ? lunarToSolar(year, lunar[0], lunar[1]) : name === '清明节' ? qingmingDate(year) : undefined;
+  if (!festival) {
+    return undefined;
+  }
+  const start = lunar ? addDays(festival, lunar[2]) : festival;
+  return { name, start, end: addDays(start, (lunar ? lunar[3] : 1) - 1), workdays: [], estimated: true };
+}
+
+/**
+ * 指定年份的节假日安排，表中没有该年份时按日期推算（标记为 estimated），超出推算范围时返回undefined
+ */
+export function resolveHoliday(name: HolidayName, year: number): HolidaySchedule | undefined {
+  const schedules = HOLIDAY_TABLE[year];
+  if (schedules) {
+    return schedules.find(item => item.name === name);
+  }
+  return estimateHoliday(name, year);
+}
+
+/**
+ * 最近一次的节假日安排：今年的假期已结束时取明年
+ */
+export function upcomingHoliday(name: HolidayName, now: Date = new Date()): HolidaySchedule | undefined {
+  const today = formatDate(now);
+  const thisYear = resolveHoliday(name, now.getFullYear());
+  if (thisYear && thisYear.end >= today) {
+    return thisYear;
+  }
+  return resolveHoliday(name, now.getFullYear() + 1);
+}
+
+/**
+ * 是否为休息日：节假日放假、周末（调休上班日除外）
+ */
+export function isOffDay(date: string): boolean {
+  const schedules = HOLIDAY_TABLE[toDate(date).getFullYear()] ?? [];
+  if (schedules.some(item => item.workdays.includes(date))) {
+    return false;
+  }
+  if (schedules.some(item => item.start <= date && date <= item.end)) {
+    return true;
+  }
+  const weekday = toDate(date).getDay();
+  return weekday === 0 || weekday === 6;
+}
+
+function shortDate(date: string): string {
+  return `${Number(date.slice(5, 7))}月${Number(date.slice(8, 10))}日`;
+}
+
+/**
+ * 放假安排描述，如"国庆节：10月1日至10月8日，共8天（9月28日、10月11日调休上班）"
+ */
+export function formatHolidaySchedule(schedule: HolidaySchedule): string {
+  const days = dateRangeDays(schedule);
+  const range = days > 1 ? `${shortDate(schedule.start)}至${shortDate(schedule.end)}` : shortDate(schedule.start);
+  let text = `${schedule.name}：${range}，共${days}天`;
+  if (schedule.workdays.length > 0) {
+    text += `（${schedule.workdays.map(shortDate).join('、')}调休上班）`;
+  }
+  if (schedule.estimated) {
+    text += '（按往年推算，以官方公布为准）';
+  }
+  return text;
+}
+
+function shiftDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * 具体日期："10月1日"、"2024-10-01"、"2024/10/01"、"2024年10月1日"，未写年份且日期已过时视为明年
+ */
+function parseExplicitDate(text: string, now: Date): Date | undefined {
+  const full = text.match(/(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})(?!\d)/);
+  if (full) {
+    return new Date(parseInt(full[1], 10), parseInt(full[2], 10) - 1, parseInt(full[3], 10));
+  }
+  const short = text.match(/(\d{1,2})\s*月\s*(\d{1,2})\s*[日号]?/);
+  if (short) {
+    const month = parseInt(short[1], 10) - 1;
+    const day = parseInt(short[2], 10);
+    const date = new Date(now.getFullYear(), month, day);
+    return date < new Date(now.getFullYear(), now.getMonth(), now.getDate())
+      ? new Date(now.getFullYear() + 1, month, day)
+      : date;
+  }
+  return undefined;
+}
+
+/**
+ * 相对日期：今天/明天/后天/大后天、周末/下周末、本周X/下周X
+ * @returns 开始日期与可能的结束日期（"周末"为周六到周日）
+ */
+function parseRelativeDate(text: string, today: Date, days?: number): [Date, Date | undefined] | undefined {
+  if (/大后天/.test(text)) {
+    return [shiftDays(today, 3), undefined];
+  }
+  if (/后天/.test(text)) {
+    return [shiftDays(today, 2), undefined];
+  }
+  if (/明天|明日/.test(text)) {
+    return [shiftDays(today, 1), undefined];
+  }
+  if (/今天|今日|今晚/.test(text)) {
+    return [today, undefined];
+  }
+  const weekday = today.getDay();
+  const named = text.match(/(下|本|这)?(?:个)?(?:周|星期|礼拜)([一二三四五六日天])/);
+  if (named && !/周末/.test(text)) {
+    const target = WEEKDAY_NUMBERS[named[2]];
+    // 按周一为一周的开始计算
+    const mondayOffset = weekday === 0 ? -6 : 1 - weekday;
+    const targetOffset = target === 0 ? 6 : target - 1;
+    let offset = mondayOffset + targetOffset + (named[1] === '下' ? 7 : 0);
+    // 本周已过去的日子（如周三说"这周一"）顺延到下周，不返回过去的日期
+    if (offset < 0) {
+      offset += 7;
+    }
+    return [shiftDays(today, offset), undefined];
+  }
+  if (/周末/.test(text)) {
+    // 周日时"周末"指当天，"下周末"指下周六
+    let offset = weekday === 0 ? 0 : 6 - weekday;
+    if (/下周末|下个周末/.test(text)) {
+      offset = weekday === 0 ? 6 : offset + 7;
+    }
+    const start = shiftDays(today, offset);
+    return [start, days === undefined && start.getDay() === 6 ? shiftDays(start, 1) : undefined];
+  }
+  return undefined;
+}
+
+/**
+ * 出行日期：具体日期或日期范围（"2025-12-15 至 2025-12-20"、"12月15日-20日"）、
+ * 节假日（"国庆节"、"五一"，按放假安排取整个假期）或相对日期（"明天"、"下周末"）
+ * 用于解析自然语言查询和表单中的出行日期
+ * @param now 解析相对日期的基准时间
+ * @param days 旅行天数，提供时据此推算或截短结束日期
+ */
+export function parseDateRange(text: string, now: Date, days?: number): DateRange | undefined {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  let start: Date | undefined;
+  let end: Date | undefined;
+  let holiday: HolidayName | undefined;
+
+  const rangeMatch = text.match(
+    /(\d{4}\s*[-/.年]\s*\d{1,2}\s*[-/.月]\s*\d{1,2}|\d{1,2}\s*月\s*\d{1,2}\s*[日号]?)\s*(?:到|至|-|~|～|—)\s*((?:\d{4}\s*[-/.年]\s*)?(?:\d{1,2}\s*[月/.-]\s*)?\d{1,2}\s*[日号]?)/);
+  if (rangeMatch) {
+    start = parseExplicitDate(rangeMatch[1], now);
+    if (start) {
+      const endText = rangeMatch[2];
+      const endMatch = endText.match(/^(?:(\d{4})\s*[-/.年]\s*)?(?:(\d{1,2})\s*[月/.-]\s*)?(\d{1,2})/);
+      if (endMatch) {
+        const year = endMatch[1] ? parseInt(endMatch[1], 10) : start.getFullYear();
+        const month = endMatch[2] ? parseInt(endMatch[2], 10) - 1 : start.getMonth();
+        end = new Date(year, month, parseInt(endMatch[3], 10));
+        // 跨年且未写年份，如"12月30日到1月2日"
+        if (end < start && !endMatch[1]) {
+          end = new Date(year + 1, month, end.getDate());
+        }
+      }
+    }
+  }
+
+  if (!start) {
+    start = parseExplicitDate(text, now);
+  }
+  const namedHoliday = HOLIDAY_PATTERNS.find(item => item.pattern.test(text))?.name;
+  let labeledHoliday: HolidayName | undefined;
+  if (start && namedHoliday) {
+    // 同时写明节假日和日期（如节假日快捷选择填写的"国庆节 2026-10-01 至 2026-10-07"）时，日期落在假期内则保留节假日名称
+    const schedule = resolveHoliday(namedHoliday, start.getFullYear());
+    const startText = formatDate(start);
+    if (schedule && startText >= schedule.start && startText <= schedule.end) {
+      labeledHoliday = namedHoliday;
+    }
+  }
+  if (!start) {
+    holiday = namedHoliday;
+    const schedule = holiday ? upcomingHoliday(holiday, now) : undefined;
+    if (schedule) {
+      start = toDate(schedule.start);
+      end = toDate(schedule.end);
+    } else {
+      holiday = undefined;
+    }
+  }
+  if (!start) {
+    const relative = parseRelativeDate(text, today, days);
+    if (relative) {
+      [start, end] = relative;
+    }
+  }
+
+  if (!start) {
+    return undefined;
+  }
+  if (days !== undefined && days >= 1 && (!end || holiday)) {
+    // 指定了天数时以天数为准，如"国庆去成都玩3天"
+    end = shiftDays(start, days - 1);
+  }
+  const range: DateRange = { start: formatDate(start) };
+  if (end && end > start) {
+    range.end = formatDate(end);
+  }
+  if (holiday || labeledHoliday) {
+    range.holiday = holiday ?? labeledHoliday;
+  }
+  return range;
+}
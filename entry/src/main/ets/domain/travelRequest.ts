@@ -0,0 +1,127 @@
+import type { BudgetRange, InterestId, RecommendationOptions, RecommendationRequest, TripStop } from '../services/types';
+import { isInterestId } from '../services/interests';
+import { dateRangeDays, parseDateRange } from './travelDates';
+
+/**
+ * 旅行表单原始输入
+ */
+export interface TravelFormInput {
+  destination: string;
+  stops?: TravelStopInput[]; // 多目的地行程的各站（含第一站），按游览顺序
+  departure?: string;
+  travelDate?: string;
+  travelDays?: string;
+  companions?: string; // 如"2人 (情侣/朋友)"
+  budget?: string; // 如"3000-5000元"
+  interests?: string[];
+  options?: RecommendationOptions;
+}
+
+/**
+ * 多目的地行程中一站的表单输入
+ */
+export interface TravelStopInput {
+  destination: string;
+  days?: string; // 停留天数，如"3"
+}
+
+/**
+ * 解析旅行天数，如"3"、"3天"
+ */
+export function parseTravelDays(text?: string): number | undefined {
+  const match = text?.match(/\d+/);
+  if (!match) {
+    return undefined;
+  }
+  const days = parseInt(match[0], 10);
+  return days > 0 ? days : undefined;
+}
+
+/**
+ * 解析预算范围，支持"3000-5000元"、"3000~5000"、"5000元以内"、"3000以上"、"1万"、"1-2万"
+ */
+export function parseBudgetRange(text?: string): BudgetRange | undefined {
+  if (!text?.trim()) {
+    return undefined;
+  }
+  const values: number[] = [];
+  const units: number[] = [];
+  const pattern = /(\d+(?:\.\d+)?)\s*(万|千|k|K)?/g;
+  let match = pattern.exec(text);
+  while (match !== null) {
+    values.push(parseFloat(match[1]));
+    units.push(match[2] === '万' ? 10000 : match[2] ? 1000 : 1);
+    match = pattern.exec(text);
+  }
+  if (values.length === 0) {
+    return undefined;
+  }
+  if (values.length >= 2) {
+    // "1-2万"中单位只写在后面，下限小于上限的数字时沿用上限的单位；"500-1万"中下限已是完整金额
+    const lowerUnit = units[0] === 1 && values[0] < values[1] ? units[1] : units[0];
+    const first = Math.round(values[0] * lowerUnit);
+    const second = Math.round(values[1] * units[1]);
+    return { min: Math.min(first, second), max: Math.max(first, second) };
+  }
+  const amount = Math.round(values[0] * units[0]);
+  if (/以上|起|至少/.test(text)) {
+    return { min: amount };
+  }
+  return { max: amount };
+}
+
+/**
+ * 解析同行人数与关系，如"2人 (情侣/朋友)"、"5+人 (团队)"
+ */
+export function parseCompanions(text?: string): { partySize?: number; companions?: string } {
+  if (!text?.trim()) {
+    return {};
+  }
+  const sizeMatch = text.match(/(\d+)\s*\+?\s*人/);
+  const relationMatch = text.match(/[（(]([^）)]+)[）)]/);
+  return {
+    partySize: sizeMatch ? parseInt(sizeMatch[1], 10) : undefined,
+    companions: relationMatch ? relationMatch[1].trim() : undefined,
+  };
+}
+
+/**
+ * 将表单输入转换为结构化的推荐请求
+ * @param query 查询文本（Mock模式和日志使用）
+ * @param now 解析出行日期中相对日期的基准时间
+ */
+export function buildTravelRequest(input: TravelFormInput, query: string, now: Date = new Date()): RecommendationRequest {
+  const destination = input.destination.trim();
+  const { partySize, companions } = parseCompanions(input.companions);
+  const interests: InterestId[] = (input.interests ?? []).filter(isInterestId);
+  const stops: TripStop[] = (input.stops ?? [])
+    .filter(stop => stop.destination.trim().length > 0)
+    .map(stop => ({ destination: stop.destination.trim(), days: parseTravelDays(stop.days) }));
+  const multiCity = stops.length > 1;
+  // 多目的地行程各站都填写了天数时，总天数以各站合计为准
+  const stopDays = multiCity && stops.every(stop => stop.days !== undefined)
+    ? stops.reduce((sum, stop) => sum + (stop.days ?? 0), 0)
+    : undefined;
+  const travelDate = input.travelDate?.trim() || undefined;
+  let travelDays = stopDays ?? parseTravelDays(input.travelDays);
+  const dateRange = travelDate ? parseDateRange(travelDate, now, travelDays) : undefined;
+  // 未填写天数时按日期范围推算，如"2025-12-15 至 2025-12-20"为6天
+  if (travelDays === undefined && dateRange?.end) {
+    travelDays = dateRangeDays(dateRange);
+  }
+  return {
+    query,
+    city: destination,
+    destination,
+    stops: multiCity ? stops : undefined,
+    departure: input.departure?.trim() || undefined,
+    travelDate,
+    dateRange,
+    travelDays,
+    partySize,
+    companions,
+    budget: parseBudgetRange(input.budget),
+    interests: interests.length > 0 ? interests : undefined,
+    options: input.options,
+  };
+}
@@ -0,0 +1,170 @@
+import type {
+  RecommendationRequest,
+  RecommendationResult,
+  WeatherForecast,
+  WeatherInfo
+} from '../services/types';
+import type { TravelFormInput } from './travelRequest';
+
+/**
+ * 一条历史行程：生成时的请求、结果与天气快照
+ */
+export interface TripRecord {
+  id: string;
+  title: string; // 列表展示的标题，如"成都 → 重庆 · 5天"
+  request: RecommendationRequest;
+  form?: TravelFormInput; // 表单页生成时的原始输入，用于重新生成时回填表单
+  result: RecommendationResult;
+  weather?: WeatherInfo; // 生成时的实况天气
+  weatherForecast?: WeatherForecast[]; // 生成时的天气预报
+  favorite: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 历史行程查询条件
+ */
+export interface TripHistoryQuery {
+  keyword?: string; // 匹配标题、查询内容、目的地和出发地
+  favoritesOnly?: boolean;
+  limit?: number;
+}
+
+/**
+ * 历史行程存储，列表按更新时间从新到旧排序
+ */
+export interface TripHistoryRepository {
+  /**
+   * 新增或覆盖（相同ID）一条记录
+   */
+  save(record: TripRecord): Promise<void>;
+  get(id: string): Promise<TripRecord | undefined>;
+  list(query?: TripHistoryQuery): Promise<TripRecord[]>;
+  setFavorite(id: string, favorite: boolean): Promise<void>;
+  remove(id: string): Promise<void>;
+  /**
+   * 非收藏记录超过上限时删除最旧的
+   * @returns 删除的条目数
+   */
+  prune(maxEntries: number): Promise<number>;
+  clear(): Promise<void>;
+}
+
+// 非收藏历史行程的保留上限
+export const MAX_TRIP_HISTORY = 100;
+
+let recordSeq = 0;
+
+/**
+ * 行程标题：多目的地行程列出各站，附带天数
+ */
+export function tripTitle(request: RecommendationRequest): string {
+  const places = request.stops && request.stops.length > 1
+    ? request.stops.map(stop => stop.destination).join(' → ')
+    : request.destination || request.city || request.query;
+  return request.travelDays ? `${places} · ${request.travelDays}天` : places;
+}
+
+/**
+ * 用于关键词搜索的文本
+ */
+export function tripSearchText(record: TripRecord): string {
+  const request = record.request;
+  return [
+    record.title,
+    request.query,
+    request.destination,
+    request.departure,
+    ...(request.stops ?? []).map(stop => stop.destination),
+  ].filter((text): text is string => !!text).join(' ');
+}
+
+/**
+ * 由本次生成的请求和结果创建历史记录
+ * 结果中的对话会话和追踪记录只在内存中有效，保存时去掉会话ID和追踪ID
+ */
+export function createTripRecord(
+  request: RecommendationRequest,
+  result: RecommendationResult,
+  form?: TravelFormInput,
+  now: number = Date.now()
+): TripRecord {
+  return {
+    id: `trip_${now}_${++recordSeq}`,
+    title: tripTitle(request),
+    request,
+    form,
+    result: { ...result, sessionId: undefined, traceId: undefined },
+    weather: result.weather,
+    weatherForecast: result.weatherForecast,
+    favorite: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * 用调整后的结果更新历史记录，保留收藏状态和创建时间
+ */
+export function updateTripRecord(
+  record: TripRecord,
+  result: RecommendationResult,
+  now: number = Date.now()
+): TripRecord {
+  return {
+    ...record,
+    result: { ...result, sessionId: undefined, traceId: undefined },
+    weather: result.weather ?? record.weather,
+    weatherForecast: result.weatherForecast ?? record.weatherForecast,
+    updatedAt: now,
+  };
+}
+
+/**
+ * 内存存储（不持久化，用于测试或无法获取应用上下文时）
+ */
+export class MemoryTripHistoryRepository implements TripHistoryRepository {
+  private records: Map<string, TripRecord> = new Map();
+
+  async save(record: TripRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async get(id: string): Promise<TripRecord | undefined> {
+    return this.records.get(id);
+  }
+
+  async list(query: TripHistoryQuery = {}): Promise<TripRecord[]> {
+    const keyword = query.keyword?.trim();
+    const records = Array.from(this.records.values())
+      .filter(record => !query.favoritesOnly || record.favorite)
+      .filter(record => !keyword || tripSearchText(record).includes(keyword))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+    return query.limit !== undefined ? records.slice(0, query.limit) : records;
+  }
+
+  async setFavorite(id: string, favorite: boolean): Promise<void> {
+    const record = this.records.get(id);
+    if (record) {
+      this.records.set(id, { ...record, favorite });
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async prune(maxEntries: number): Promise<number> {
+    const stale = Array.from(this.records.values())
+      .filter(record => !record.favorite)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(maxEntries);
+    stale.forEach(record => this.records.delete(record.id));
+    return stale.length;
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
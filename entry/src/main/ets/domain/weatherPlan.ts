@@ -0,0 +1,154 @@
+import type {
+  DayWeather,
+  PoiItem,
+  PoiSetting,
+  WeatherForecast,
+  WeatherSuitability
+} from '../services/types';
+import { addDays } from './travelDates';
+
+/**
+ * 高德POI分类编码前缀对应的室内/户外类型，按最长前缀匹配
+ * 如 11 风景名胜整体为户外，其中 110104 水族馆、110204 纪念馆为室内
+ */
+const SETTING_BY_TYPECODE: Array<[string, PoiSetting]> = [
+  ['05', 'indoor'], // 餐饮服务
+  ['06', 'indoor'], // 购物服务
+  ['0610', 'outdoor'], // 特色商业街
+  ['0801', 'indoor'], // 运动场馆
+  ['0803', 'indoor'], // 娱乐场所
+  ['0805', 'outdoor'], // 休闲场所（度假村、游乐场等）
+  ['0806', 'indoor'], // 影剧院
+  ['10', 'indoor'], // 住宿服务
+  ['11', 'outdoor'], // 风景名胜
+  ['110104', 'indoor'], // 水族馆
+  ['110204', 'indoor'], // 纪念馆
+  ['14', 'indoor'], // 科教文化（博物馆、展览馆、美术馆等）
+];
+
+// 没有分类编码时按名称判断
+const INDOOR_NAME_PATTERN = /博物馆|博物院|美术馆|艺术馆|展览|科技馆|纪念馆|商场|购物中心|百货|影院|剧院|水族馆|海洋馆|图书馆|室内|餐厅|酒店/;
+
+// 白天出现这些天气时不宜户外活动
+const POOR_WEATHER_PATTERN = /雨|雪|雷|冰雹|沙尘|扬沙|浮尘|霾|台风|大风/;
+// 阴天、雾或夜间有雨雪时户外活动受一定影响
+const FAIR_WEATHER_PATTERN = /阴|雾/;
+// 白天气温超出该范围时户外活动受一定影响（°C）
+const HOT_TEMPERATURE = 35;
+const COLD_TEMPERATURE = -5;
+
+const SUITABILITY_LABELS: Record<WeatherSuitability, string> = {
+  good: '适宜户外',
+  fair: '户外一般',
+  poor: '不宜户外',
+  unknown: '天气未知',
+};
+
+/**
+ * 判断POI为室内还是户外，无法判断时视为户外（按天气安排时更保守）
+ */
+export function classifyPoiSetting(poi: PoiItem): PoiSetting {
+  const typecodes = (poi.typecode ?? '').split('|').filter(code => code.length > 0);
+  let best: [string, PoiSetting] | undefined;
+  for (const code of typecodes) {
+    for (const rule of SETTING_BY_TYPECODE) {
+      if (code.startsWith(rule[0]) && (!best || rule[0].length > best[0].length)) {
+        best = rule;
+      }
+    }
+  }
+  if (best) {
+    return best[1];
+  }
+  return INDOOR_NAME_PATTERN.test(`${poi.name}${poi.type ?? ''}`) ? 'indoor' : 'outdoor';
+}
+
+/**
+ * 为POI补充室内/户外类型
+ */
+export function classifyPois(pois: PoiItem[]): PoiItem[] {
+  return pois.map(poi => ({ ...poi, setting: classifyPoiSetting(poi) } as PoiItem));
+}
+
+/**
+ * 根据天气预报判断当天户外活动的适宜程度
+ */
+export function weatherSuitability(forecast: WeatherForecast): WeatherSuitability {
+  if (POOR_WEATHER_PATTERN.test(forecast.dayweather)) {
+    return 'poor';
+  }
+  const temperature = Number(forecast.daytemp);
+  if (FAIR_WEATHER_PATTERN.test(forecast.dayweather) || POOR_WEATHER_PATTERN.test(forecast.nightweather) ||
+    (Number.isFinite(temperature) && (temperature >= HOT_TEMPERATURE || temperature <= COLD_TEMPERATURE))) {
+    return 'fair';
+  }
+  return 'good';
+}
+
+export function suitabilityLabel(suitability: WeatherSuitability): string {
+  return SUITABILITY_LABELS[suitability];
+}
+
+/**
+ * 某一天所在城市及其天气预报
+ */
+export interface DayForecastSource {
+  city: string;
+  forecast?: WeatherForecast[];
+}
+
+/**
+ * 按出行日期为行程每天匹配天气预报，超出预报范围（高德只提供约4天）或出行日期未知的日子标记为 unknown
+ * @param startDate 第1天的日期（YYYY-MM-DD），未知时为空
+ * @param days 行程天数
+ * @param sourceForDay 第 day 天所在城市及其预报（多目的地行程按天切换城市）
+ */
+export function alignDayWeather(
+  startDate: string | undefined,
+  days: number,
+  sourceForDay: (day: number) => DayForecastSource
+): DayWeather[] {
+  const result: DayWeather[] = [];
+  for (let day = 1; day <= Math.max(1, days); day++) {
+    const source = sourceForDay(day);
+    const date = startDate ? addDays(startDate, day - 1) : undefined;
+    const forecast = date ? source.forecast?.find(item => item.date === date) : undefined;
+    result.push({
+      day,
+      date,
+      city: source.city,
+      forecast,
+      suitability: forecast ? weatherSuitability(forecast) : 'unknown',
+    });
+  }
+  return result;
+}
+
+/**
+ * 单日天气描述，如"12月15日 成都 小雨 12~18°C（不宜户外）"
+ */
+export function formatDayWeather(weather: DayWeather): string {
+  const date = weather.date ? `${Number(weather.date.slice(5, 7))}月${Number(weather.date.slice(8, 10))}日 ` : '';
+  const forecast = weather.forecast;
+  if (!forecast) {
+    return `${date}${weather.city} ${weather.date ? '超出预报范围，天气未知' : '出行日期未定，天气未知'}`;
+  }
+  const phenomenon = forecast.dayweather === forecast.nightweather
+    ? forecast.dayweather
+    : `${forecast.dayweather}转${forecast.nightweather}`;
+  return `${date}${weather.city} ${phenomenon} ${forecast.nighttemp}~${forecast.daytemp}°C（${suitabilityLabel(weather.suitability)}）`;
+}
+
+/**
+ * 发给大模型的逐日天气上下文，出行日期未知时返回空字符串
+ */
+export function buildDayWeatherContext(dayWeather: DayWeather[]): string {
+  const first = dayWeather[0];
+  if (!first?.date) {
+    return '';
+  }
+  if (!dayWeather.some(item => item.forecast)) {
+    return `出行日期（${first.date}起）超出天气预报范围，请按当地季节气候安排`;
+  }
+  return dayWeather.map(item => `第${item.day}天 ${formatDayWeather(item)}`).join('; ');
+}
@@ -0,0 +1,129 @@
+import { HttpError } from '../common/httpClient';
+
+export type AmapErrorKind =
+  | 'auth' // 密钥无效、未开通服务或已停用
+  | 'quota' // 当日调用量已用完
+  | 'rate_limit' // 请求过于频繁（QPS超限）
+  | 'invalid_params' // 请求参数有误或超出服务范围
+  | 'server' // 服务端异常或返回内容无法解析
+  | 'timeout'
+  | 'network'
+  | 'aborted'
+  | 'unknown';
+
+const ERROR_LABELS: Record<AmapErrorKind, string> = {
+  auth: '高德地图密钥无效或无权限',
+  quota: '高德地图今日调用量已用完',
+  rate_limit: '高德地图请求过于频繁',
+  invalid_params: '高德地图请求参数有误',
+  server: '高德地图服务异常',
+  timeout: '高德地图响应超时',
+  network: '无法连接高德地图服务',
+  aborted: '请求已取消',
+  unknown: '高德地图调用失败',
+};
+
+// 高德 infocode 与错误类型的对应关系，见 https://lbs.amap.com/api/webservice/guide/tools/info
+const INFOCODE_KINDS: Record<string, AmapErrorKind> = {
+  '10001': 'auth', // INVALID_USER_KEY
+  '10002': 'auth', // SERVICE_NOT_AVAILABLE
+  '10003': 'quota', // DAILY_QUERY_OVER_LIMIT
+  '10004': 'rate_limit', // ACCESS_TOO_FREQUENT
+  '10005': 'auth', // INVALID_USER_IP
+  '10006': 'auth', // INVALID_USER_DOMAIN
+  '10007': 'auth', // INVALID_USER_SIGNATURE
+  '10008': 'auth', // INVALID_USER_SCODE
+  '10009': 'auth', // USERKEY_PLAT_NOMATCH
+  '10010': 'quota', // IP_QUERY_OVER_LIMIT
+  '10011': 'invalid_params', // NOT_SUPPORT_HTTPS
+  '10012': 'auth', // INSUFFICIENT_PRIVILEGES
+  '10013': 'auth', // USER_KEY_RECYCLED
+  '10014': 'rate_limit', // QPS_HAS_EXCEEDED_THE_LIMIT
+  '10015': 'timeout', // GATEWAY_TIMEOUT
+  '10016': 'server', // SERVER_IS_BUSY
+  '10017': 'server', // RESOURCE_UNAVAILABLE
+  '10019': 'rate_limit', // CQPS_HAS_EXCEEDED_THE_LIMIT
+  '10020': 'rate_limit', // CKQPS_HAS_EXCEEDED_THE_LIMIT
+  '10021': 'rate_limit', // CUQPS_HAS_EXCEEDED_THE_LIMIT
+  '10026': 'auth', // INVALID_REQUEST（账号被封禁）
+  '10029': 'quota', // ABROAD_DAILY_QUERY_OVER_LIMIT
+  '10041': 'auth', // NO_EFFECTIVE_INTERFACE
+  '10044': 'quota', // USER_DAILY_QUERY_OVER_LIMIT
+  '10045': 'quota', // USER_ABROAD_DAILY_QUERY_OVER_LIMIT
+  '40000': 'quota', // QUOTA_PLAN_RUN_OUT
+  '40002': 'auth', // SERVICE_EXPIRED
+  '40003': 'quota', // ABROAD_QUOTA_PLAN_RUN_OUT
+};
+
+/**
+ * 按 infocode 归类：2xxxx 为请求参数或服务范围问题，3xxxx 为引擎异常
+ */
+export function amapErrorKind(infocode: string | undefined): AmapErrorKind {
+  if (!infocode) {
+    return 'unknown';
+  }
+  const kind = INFOCODE_KINDS[infocode];
+  if (kind) {
+    return kind;
+  }
+  if (infocode === '20003') {
+    return 'server'; // UNKNOWN_ERROR
+  }
+  if (infocode.startsWith('2')) {
+    return 'invalid_params';
+  }
+  return infocode.startsWith('3') ? 'server' : 'unknown';
+}
+
+/**
+ * 统一的高德接口错误，infocode 与 info 为高德返回的原始错误码与信息
+ */
+export class AmapError extends Error {
+  kind: AmapErrorKind;
+  infocode?: string;
+  info?: string;
+
+  constructor(kind: AmapErrorKind, info?: string, infocode?: string) {
+    super(info && info !== ERROR_LABELS[kind] ? `${ERROR_LABELS[kind]}: ${info}` : ERROR_LABELS[kind]);
+    this.name = 'AmapError';
+    this.kind = kind;
+    this.info = info;
+    this.infocode = infocode;
+  }
+}
+
+/**
+ * 高德接口返回 status 不为"1"时的错误
+ */
+export function amapResponseError(data: { info?: string; infocode?: string }): AmapError {
+  return new AmapError(amapErrorKind(data.infocode), data.info || undefined, data.infocode || undefined);
+}
+
+/**
+ * 将HTTP层错误转换为 AmapError
+ */
+export function toAmapError(error: unknown): AmapError {
+  if (error instanceof AmapError) {
+    return error;
+  }
+  if (error instanceof HttpError) {
+    if (error.kind === 'aborted' || error.kind === 'timeout' || error.kind === 'network') {
+      return new AmapError(error.kind, error.message);
+    }
+    if (error.kind === 'status') {
+      const status = error.status ?? 0;
+      if (status === 401 || status === 403) {
+        return new AmapError('auth', error.message);
+      }
+      if (status === 429) {
+        return new AmapError('rate_limit', error.message);
+      }
+      return new AmapError(status >= 500 ? 'server' : 'unknown', error.message);
+    }
+    if (error.kind === 'parse') {
+      return new AmapError('server', error.message);
+    }
+    return new AmapError('unknown', error.message);
+  }
+  return new AmapError('unknown', (error as Error)?.message);
+}
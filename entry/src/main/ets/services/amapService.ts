@@ -1,10 +1,14 @@
-import { httpGet, HttpError } from '../common/httpClient';
+import { httpGet, HttpError, type HttpAbortSignal, type RequestOptions } from '../common/httpClient';
 import type { AppConfig } from '../common/config';
-import type { PoiItem, WeatherInfo, WeatherForecast } from './types';
+import type { SecretReader } from '../common/secretStore';
+import type { PoiItem, PoiQuery, RouteLeg, TravelMode, WeatherInfo, WeatherForecast } from './types';
+import { AmapError, amapResponseError, toAmapError } from './amapError';
 import { hilog } from '@kit.PerformanceAnalysisKit';
 
 const DOMAIN = 0x0000;
 const TAG = 'AmapService';
+// 分页搜索时每页的POI数量（高德建议不超过25）
+const POI_PAGE_SIZE = 25;
 
 export interface AmapPoiSearchResponse {
   status: string;
@@ -18,9 +22,14 @@ export interface AmapPoiSearchResponse {
     typecode: string;
     address: string;
     location: string;
-    tel?: string;
+    tel?: string | [];
     distance?: string;
     business_area?: string;
+    cityname?: string | [];
+    biz_ext?: {
+      rating?: string | [];
+      cost?: string | [];
+    };
     photos?: Array<{
       title?: string;
       url?: string;
@@ -28,6 +37,26 @@ export interface AmapPoiSearchResponse {
   }>;
 }
 
+type AmapPoi = NonNullable<AmapPoiSearchResponse['pois']>[number];
+
+export interface AmapRegeoResponse {
+  status: string;
+  info: string;
+  infocode: string;
+  regeocode?: {
+    formatted_address?: string | [];
+    addressComponent?: {
+      province?: string | [];
+      city?: string | [];
+      district?: string | [];
+      township?: string | [];
+      neighborhood?: {
+        name?: string | [];
+      };
+    };
+  };
+}
+
 export interface AmapGeocodeResponse {
   status: string;
   count: string;
@@ -80,49 +109,251 @@ export interface AmapWeatherResponse {
   }>;
 }
 
+interface AmapRouteStep {
+  instruction?: string;
+}
+
+export interface AmapWalkingResponse {
+  status: string;
+  info: string;
+  infocode: string;
+  route?: {
+    origin?: string;
+    destination?: string;
+    paths?: Array<{
+      distance: string;
+      duration: string;
+      steps?: AmapRouteStep[];
+    }>;
+  };
+}
+
+export interface AmapDrivingResponse {
+  status: string;
+  info: string;
+  infocode: string;
+  route?: {
+    taxi_cost?: string | [];
+    paths?: Array<{
+      distance: string;
+      duration: string;
+      tolls?: string;
+      steps?: AmapRouteStep[];
+    }>;
+  };
+}
+
+interface AmapTransitStop {
+  name?: string;
+}
+
+export interface AmapTransitResponse {
+  status: string;
+  info: string;
+  infocode: string;
+  route?: {
+    distance?: string;
+    taxi_cost?: string | [];
+    transits?: Array<{
+      cost?: string | [];
+      duration: string;
+      distance?: string;
+      walking_distance?: string;
+      segments?: Array<{
+        walking?: {
+          distance?: string;
+          duration?: string;
+        };
+        bus?: {
+          buslines?: Array<{
+            name: string;
+            departure_stop?: AmapTransitStop;
+            arrival_stop?: AmapTransitStop;
+          }>;
+        };
+        railway?: {
+          name?: string;
+          departure_stop?: AmapTransitStop;
+          arrival_stop?: AmapTransitStop;
+        };
+      }>;
+    }>;
+  };
+}
+
+export interface AmapBicyclingResponse {
+  errcode: number;
+  errmsg: string;
+  data?: {
+    paths?: Array<{
+      distance: number;
+      duration: number;
+      steps?: AmapRouteStep[];
+    }>;
+  };
+}
+
+/**
+ * 高德接口在字段为空时会返回[]，统一转换为数字
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const num = Number(value);
+    return Number.isFinite(num) ? num : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * 高德接口在字段为空时会返回[]，统一转换为字符串
+ */
+function toText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value : undefined;
+}
+
+/**
+ * 转换高德POI数据，图片优先使用第一张
+ * @param city 搜索时的城市，周边搜索时使用POI所在城市
+ */
+function toPoiItem(poi: AmapPoi, city?: string): PoiItem {
+  let imageUrl: string | undefined = undefined;
+  if (poi.photos && poi.photos.length > 0 && poi.photos[0].url) {
+    imageUrl = poi.photos[0].url;
+  }
+  return {
+    id: poi.id || undefined,
+    name: poi.name,
+    address: poi.address || poi.business_area || '',
+    location: poi.location,
+    city: city ?? toText(poi.cityname),
+    distance: poi.distance ? Number(poi.distance) : undefined,
+    rating: toNumber(poi.biz_ext?.rating),
+    tel: toText(poi.tel),
+    image: imageUrl,
+    type: poi.type || undefined,
+    typecode: poi.typecode,
+    cost: toNumber(poi.biz_ext?.cost),
+  };
+}
+
+function stepSummaries(steps?: AmapRouteStep[], limit: number = 5): string[] {
+  return (steps ?? [])
+    .map(step => step.instruction)
+    .filter((instruction): instruction is string => !!instruction)
+    .slice(0, limit);
+}
+
+/**
+ * 去掉公交线路名中的起止站说明，如"地铁1号线(苹果园--四惠东)" -> "地铁1号线"
+ */
+function shortLineName(name: string): string {
+  return name.replace(/[（(].*[)）]$/, '');
+}
+
+/**
+ * 生成高德地图标注点链接（浏览器或高德App打开）
+ * @param location 坐标，格式为"经度,纬度"
+ */
+export function buildAmapMarkerUrl(location: string, name: string): string {
+  return `https://uri.amap.com/marker?position=${encodeURIComponent(location)}` +
+    `&name=${encodeURIComponent(name)}&coordinate=gaode&callnative=1`;
+}
+
 /**
  * 高德地图POI搜索服务
  */
 export class AmapService {
   private config: AppConfig;
+  private secrets: SecretReader;
 
-  constructor(config: AppConfig) {
+  constructor(config: AppConfig, secrets: SecretReader) {
     this.config = config;
+    this.secrets = secrets;
   }
 
   /**
    * 根据关键词和城市搜索POI
    */
-  async searchPoi(keywords: string, city?: string): Promise<PoiItem[]> {
-    if (!this.config.amapKey) {
+  async searchPoi(keywords: string, city?: string, signal?: HttpAbortSignal): Promise<PoiItem[]> {
+    const page = await this.requestPoiPage({ keywords }, city, 1, 50, signal); // 增加返回数量，获取更多POI
+    return page.pois;
+  }
+
+  /**
+   * 按关键词和/或分类编码搜索POI，逐页获取直到达到数量上限或没有更多结果
+   * 第一页失败或请求已取消时抛出 AmapError，后续页的其他失败返回已获取的结果
+   * @param maxResults 最多获取的POI数量
+   */
+  async searchPoiPaged(
+    query: PoiQuery,
+    city: string | undefined,
+    maxResults: number,
+    signal?: HttpAbortSignal
+  ): Promise<PoiItem[]> {
+    const result: PoiItem[] = [];
+    for (let page = 1; result.length < maxResults; page++) {
+      let pageResult: { pois: PoiItem[]; count: number };
+      try {
+        pageResult = await this.requestPoiPage(query, city, page, POI_PAGE_SIZE, signal);
+      } catch (error) {
+        if (page === 1 || signal?.aborted) {
+          throw error as Error;
+        }
+        hilog.warn(DOMAIN, TAG, '第%{public}d页POI获取失败，返回已获取的%{public}d条', page, result.length);
+        break;
+      }
+      result.push(...pageResult.pois);
+      if (pageResult.pois.length < POI_PAGE_SIZE || page * POI_PAGE_SIZE >= pageResult.count) {
+        break;
+      }
+    }
+    return result.slice(0, maxResults);
+  }
+
+  /**
+   * 调用高德POI文本搜索接口获取一页结果
+   * @returns 本页POI及符合条件的总数
+   */
+  private async requestPoiPage(
+    query: PoiQuery,
+    city: string | undefined,
+    page: number,
+    pageSize: number,
+    signal?: HttpAbortSignal
+  ): Promise<{ pois: PoiItem[]; count: number }> {
+    const key = this.secrets.getSecret('amapKey');
+    if (!key) {
       hilog.error(DOMAIN, TAG, '高德地图密钥未配置');
-      throw new Error('高德地图密钥未配置');
+      throw new AmapError('auth', '高德地图密钥未配置');
     }
 
     const baseUrl = this.config.amapBaseUrl || 'https://restapi.amap.com/v3';
     const url = `${baseUrl}/place/text`;
     const searchCity = city || this.config.defaultCity || '北京';
 
-    hilog.info(DOMAIN, TAG, '开始调用高德地图POI搜索API, keywords: %{public}s, city: %{public}s', keywords, searchCity);
+    hilog.info(DOMAIN, TAG, '开始调用高德地图POI搜索API, keywords: %{public}s, types: %{public}s, city: %{public}s, page: %{public}d',
+      query.keywords ?? '', query.types ?? '', searchCity, page);
 
     try {
       const requestParams = {
-        key: this.config.amapKey,
-        keywords: keywords,
+        key,
+        keywords: query.keywords,
+        types: query.types,
         city: searchCity,
+        citylimit: query.types || query.cityLimit ? 'true' : undefined, // 分类搜索限定在目标城市内
         output: 'JSON',
-        offset: 50, // 增加返回数量，获取更多POI
-        page: 1,
+        offset: pageSize,
+        page,
         extensions: 'all',
       };
       
       hilog.debug(DOMAIN, TAG, '高德地图请求参数: %{public}s', JSON.stringify(requestParams));
 
       const startTime = Date.now();
-      const response = await httpGet<AmapPoiSearchResponse>(url, {
-        params: requestParams,
-        timeout: this.config.networkTimeout || 12000,
-      });
+      const response = await httpGet<AmapPoiSearchResponse>(url, this.requestOptions(requestParams, signal));
       const duration = Date.now() - startTime;
 
       hilog.info(DOMAIN, TAG, '高德地图API响应成功, 耗时: %{public}dms, status: %{public}s, count: %{public}s',
@@ -131,47 +362,155 @@ export class AmapService {
       if (response.data.status !== '1') {
         hilog.error(DOMAIN, TAG, '高德API返回错误, status: %{public}s, info: %{public}s, infocode: %{public}s',
           response.data.status, response.data.info, response.data.infocode);
-        throw new Error(`高德API错误: ${response.data.info || '未知错误'}`);
+        throw amapResponseError(response.data);
       }
 
       const pois = response.data.pois || [];
       hilog.info(DOMAIN, TAG, '高德地图返回POI数量: %{public}d', pois.length);
 
-      const result = pois.map((poi) => {
-        // 提取POI图片（优先使用第一张图片）
-        let imageUrl: string | undefined = undefined;
-        if (poi.photos && poi.photos.length > 0 && poi.photos[0].url) {
-          imageUrl = poi.photos[0].url;
-        }
-        
-        return {
-          name: poi.name,
-          address: poi.address || poi.business_area || '',
-          location: poi.location,
-          city: searchCity,
-          distance: poi.distance ? Number(poi.distance) : undefined,
-          tel: poi.tel,
-          image: imageUrl,
-        } as PoiItem;
-      });
+      const result = pois.map(poi => toPoiItem(poi, searchCity));
 
       hilog.debug(DOMAIN, TAG, 'POI搜索结果: %{public}s', JSON.stringify(result.map(p => ({ name: p.name, address: p.address }))));
-      return result;
+      return { pois: result, count: toNumber(response.data.count) ?? result.length };
+    } catch (error) {
+      const amapErr = toAmapError(error);
+      hilog.error(DOMAIN, TAG, '高德地图POI搜索失败: %{public}s, kind: %{public}s, infocode: %{public}s',
+        amapErr.message, amapErr.kind, amapErr.infocode ?? '-');
+      throw amapErr;
+    }
+  }
+
+  /**
+   * 周边搜索：查找坐标附近的POI，结果按距离由近到远排序
+   * @param location 中心点坐标，格式为"经度,纬度"
+   * @param radius 搜索半径（米），高德上限为50000
+   * @param types 可选，高德POI分类编码
+   * @param keywords 可选，关键词
+   */
+  async searchAround(
+    location: string,
+    radius: number,
+    types?: string,
+    keywords?: string,
+    signal?: HttpAbortSignal
+  ): Promise<PoiItem[]> {
+    const key = this.secrets.getSecret('amapKey');
+    if (!key) {
+      hilog.error(DOMAIN, TAG, '高德地图密钥未配置');
+      throw new AmapError('auth', '高德地图密钥未配置');
+    }
+
+    const baseUrl = this.config.amapBaseUrl || 'https://restapi.amap.com/v3';
+    const url = `${baseUrl}/place/around`;
+
+    hilog.info(DOMAIN, TAG, '开始调用高德地图周边搜索API, location: %{public}s, radius: %{public}d, types: %{public}s, keywords: %{public}s',
+      location, radius, types ?? '', keywords ?? '');
+
+    try {
+      const requestParams = {
+        key,
+        location,
+        radius: Math.min(Math.max(Math.round(radius), 1), 50000),
+        types,
+        keywords,
+        sortrule: 'distance',
+        output: 'JSON',
+        offset: POI_PAGE_SIZE,
+        page: 1,
+        extensions: 'all',
+      };
+
+      const startTime = Date.now();
+      const response = await httpGet<AmapPoiSearchResponse>(url, this.requestOptions(requestParams, signal));
+      const duration = Date.now() - startTime;
+
+      hilog.info(DOMAIN, TAG, '高德周边搜索API响应, 耗时: %{public}dms, status: %{public}s, count: %{public}s',
+        duration, response.data.status, response.data.count);
+
+      if (response.data.status !== '1') {
+        hilog.error(DOMAIN, TAG, '高德API返回错误, status: %{public}s, info: %{public}s, infocode: %{public}s',
+          response.data.status, response.data.info, response.data.infocode);
+        throw amapResponseError(response.data);
+      }
+
+      const result = (response.data.pois || []).map(poi => toPoiItem(poi));
+      // 接口已按距离排序，这里保证缺少距离的结果排在最后
+      return result.sort((a, b) => (a.distance ?? Number.MAX_VALUE) - (b.distance ?? Number.MAX_VALUE));
+    } catch (error) {
+      const amapErr = toAmapError(error);
+      hilog.error(DOMAIN, TAG, '高德地图周边搜索失败: %{public}s, kind: %{public}s, infocode: %{public}s',
+        amapErr.message, amapErr.kind, amapErr.infocode ?? '-');
+      throw amapErr;
+    }
+  }
+
+  /**
+   * 逆地理编码：将坐标转换为可读地址，失败时返回null
+   * @param location 坐标，格式为"经度,纬度"
+   * @returns address 为简短地址（区县+街道+社区/商圈），city 为所在城市（直辖市为省份名）
+   */
+  async reverseGeocode(
+    location: string,
+    signal?: HttpAbortSignal
+  ): Promise<{ address: string; formattedAddress: string; city: string } | null> {
+    const key = this.secrets.getSecret('amapKey');
+    if (!key) {
+      hilog.error(DOMAIN, TAG, '高德地图密钥未配置');
+      return null;
+    }
+
+    const baseUrl = this.config.amapBaseUrl || 'https://restapi.amap.com/v3';
+    const url = `${baseUrl}/geocode/regeo`;
+
+    hilog.info(DOMAIN, TAG, '开始调用高德地图逆地理编码API, location: %{public}s', location);
+
+    try {
+      const requestParams = {
+        key,
+        location,
+        extensions: 'base',
+        output: 'JSON',
+      };
+
+      const response = await httpGet<AmapRegeoResponse>(url, this.requestOptions(requestParams, signal));
+      const regeocode = response.data.status === '1' ? response.data.regeocode : undefined;
+      const formattedAddress = toText(regeocode?.formatted_address);
+      if (!regeocode || !formattedAddress) {
+        hilog.warn(DOMAIN, TAG, '高德地图逆地理编码未找到结果, info: %{public}s', response.data.info);
+        return null;
+      }
+
+      const component = regeocode.addressComponent;
+      const province = toText(component?.province) ?? '';
+      const city = (toText(component?.city) ?? province).replace(/市$/, '');
+      const address = [
+        toText(component?.district),
+        toText(component?.township),
+        toText(component?.neighborhood?.name),
+      ].filter((part): part is string => !!part).join('');
+
+      hilog.info(DOMAIN, TAG, '逆地理编码成功, address: %{public}s', formattedAddress);
+      return { address: address || formattedAddress, formattedAddress, city };
     } catch (error) {
       const httpErr = error as HttpError;
-      hilog.error(DOMAIN, TAG, '高德地图POI搜索失败: %{public}s, code: %{public}s',
+      hilog.warn(DOMAIN, TAG, '逆地理编码失败: %{public}s, code: %{public}s',
         httpErr.message || '网络错误', String(httpErr.code || 'unknown'));
-      throw new Error(`POI搜索失败: ${httpErr.message || '网络错误'}`);
+      return null;
     }
   }
 
   /**
-   * 地理编码：将地址转换为坐标
+   * 地理编码：将地址转换为坐标，没有匹配结果时返回null，调用失败时抛出 AmapError
    */
-  async geocode(address: string, city?: string): Promise<{ location: string; address: string } | null> {
-    if (!this.config.amapKey) {
+  async geocode(
+    address: string,
+    city?: string,
+    signal?: HttpAbortSignal
+  ): Promise<{ location: string; address: string } | null> {
+    const key = this.secrets.getSecret('amapKey');
+    if (!key) {
       hilog.error(DOMAIN, TAG, '高德地图密钥未配置');
-      throw new Error('高德地图密钥未配置');
+      throw new AmapError('auth', '高德地图密钥未配置');
     }
 
     const baseUrl = this.config.amapBaseUrl || 'https://restapi.amap.com/v3';
@@ -182,23 +521,25 @@ export class AmapService {
 
     try {
       const requestParams = {
-        key: this.config.amapKey,
+        key,
         address: address,
         city: searchCity,
         output: 'JSON',
       };
 
       const startTime = Date.now();
-      const response = await httpGet<AmapGeocodeResponse>(url, {
-        params: requestParams,
-        timeout: this.config.networkTimeout || 12000,
-      });
+      const response = await httpGet<AmapGeocodeResponse>(url, this.requestOptions(requestParams, signal));
       const duration = Date.now() - startTime;
 
       hilog.info(DOMAIN, TAG, '高德地图地理编码响应, 耗时: %{public}dms, status: %{public}s',
         duration, response.data.status);
 
-      if (response.data.status !== '1' || !response.data.geocodes || response.data.geocodes.length === 0) {
+      if (response.data.status !== '1') {
+        hilog.error(DOMAIN, TAG, '高德API返回错误, status: %{public}s, info: %{public}s, infocode: %{public}s',
+          response.data.status, response.data.info, response.data.infocode);
+        throw amapResponseError(response.data);
+      }
+      if (!response.data.geocodes || response.data.geocodes.length === 0) {
         hilog.warn(DOMAIN, TAG, '高德地图地理编码未找到结果');
         return null;
       }
@@ -211,20 +552,21 @@ export class AmapService {
         address: geocode.formatted_address,
       };
     } catch (error) {
-      const httpErr = error as HttpError;
-      hilog.warn(DOMAIN, TAG, '地理编码失败: %{public}s, code: %{public}s',
-        httpErr.message || '网络错误', String(httpErr.code || 'unknown'));
-      return null;
+      const amapErr = toAmapError(error);
+      hilog.error(DOMAIN, TAG, '地理编码失败: %{public}s, kind: %{public}s, infocode: %{public}s',
+        amapErr.message, amapErr.kind, amapErr.infocode ?? '-');
+      throw amapErr;
     }
   }
 
   /**
-   * 获取城市编码（adcode），用于天气查询
+   * 获取城市编码（adcode），用于天气查询，没有匹配结果时返回null，调用失败时抛出 AmapError
    */
-  async getCityAdcode(cityName: string): Promise<string | null> {
-    if (!this.config.amapKey) {
+  async getCityAdcode(cityName: string, signal?: HttpAbortSignal): Promise<string | null> {
+    const key = this.secrets.getSecret('amapKey');
+    if (!key) {
       hilog.error(DOMAIN, TAG, '高德地图密钥未配置');
-      return null;
+      throw new AmapError('auth', '高德地图密钥未配置');
     }
 
     const baseUrl = this.config.amapBaseUrl || 'https://restapi.amap.com/v3';
@@ -233,41 +575,45 @@ export class AmapService {
     try {
       // 直接调用地理编码API，不传入city参数，避免编码问题
       const requestParams = {
-        key: this.config.amapKey,
+        key,
         address: cityName,
         output: 'JSON',
       };
 
-      const response = await httpGet<AmapGeocodeResponse>(url, {
-        params: requestParams,
-        timeout: this.config.networkTimeout || 12000,
-      });
+      const response = await httpGet<AmapGeocodeResponse>(url, this.requestOptions(requestParams, signal));
 
-      if (response.data.status === '1' && response.data.geocodes && response.data.geocodes.length > 0) {
-        const adcode = response.data.geocodes[0].adcode;
-        if (adcode) {
-          hilog.info(DOMAIN, TAG, '获取城市编码成功, city: %{public}s, adcode: %{public}s', cityName, adcode);
-          return adcode;
-        }
+      if (response.data.status !== '1') {
+        hilog.error(DOMAIN, TAG, '高德API返回错误, status: %{public}s, info: %{public}s, infocode: %{public}s',
+          response.data.status, response.data.info, response.data.infocode);
+        throw amapResponseError(response.data);
+      }
+      const adcode = response.data.geocodes?.[0]?.adcode;
+      if (adcode) {
+        hilog.info(DOMAIN, TAG, '获取城市编码成功, city: %{public}s, adcode: %{public}s', cityName, adcode);
+        return adcode;
       }
     } catch (error) {
-      hilog.warn(DOMAIN, TAG, '获取城市编码失败: %{public}s', (error as Error).message);
+      const amapErr = toAmapError(error);
+      hilog.error(DOMAIN, TAG, '获取城市编码失败: %{public}s, kind: %{public}s, infocode: %{public}s',
+        amapErr.message, amapErr.kind, amapErr.infocode ?? '-');
+      throw amapErr;
     }
 
-    // 如果地理编码失败，尝试直接使用城市名查询天气（高德API可能支持）
+    // 没有匹配的城市编码时，尝试直接使用城市名查询天气（高德API可能支持）
     hilog.warn(DOMAIN, TAG, '无法获取城市编码，将尝试使用城市名直接查询天气');
     return null;
   }
 
   /**
-   * 获取实况天气
+   * 获取实况天气，没有数据时返回null，调用失败时抛出 AmapError
    * @param city 城市名称
    * @param adcode 可选的城市编码（如果已获取，可传入以避免重复查询）
    */
-  async getWeather(city: string, adcode?: string | null): Promise<WeatherInfo | null> {
-    if (!this.config.amapKey) {
+  async getWeather(city: string, adcode?: string | null, signal?: HttpAbortSignal): Promise<WeatherInfo | null> {
+    const key = this.secrets.getSecret('amapKey');
+    if (!key) {
       hilog.error(DOMAIN, TAG, '高德地图密钥未配置');
-      return null;
+      throw new AmapError('auth', '高德地图密钥未配置');
     }
 
     const baseUrl = this.config.amapBaseUrl || 'https://restapi.amap.com/v3';
@@ -280,14 +626,14 @@ export class AmapService {
       let cityParam = city;
       let finalAdcode = adcode;
       if (!finalAdcode) {
-        finalAdcode = await this.getCityAdcode(city);
+        finalAdcode = await this.getCityAdcode(city, signal);
       }
       if (finalAdcode) {
         cityParam = finalAdcode;
       }
 
       const requestParams = {
-        key: this.config.amapKey,
+        key,
         city: cityParam,
         extensions: 'base',
         output: 'JSON',
@@ -296,18 +642,19 @@ export class AmapService {
       hilog.debug(DOMAIN, TAG, '高德天气请求参数: %{public}s', JSON.stringify(requestParams));
 
       const startTime = Date.now();
-      const response = await httpGet<AmapWeatherResponse>(url, {
-        params: requestParams,
-        timeout: this.config.networkTimeout || 12000,
-      });
+      const response = await httpGet<AmapWeatherResponse>(url, this.requestOptions(requestParams, signal));
       const duration = Date.now() - startTime;
 
       hilog.info(DOMAIN, TAG, '高德天气API响应, 耗时: %{public}dms, status: %{public}s',
         duration, response.data.status);
 
-      if (response.data.status !== '1' || !response.data.lives || response.data.lives.length === 0) {
-        hilog.warn(DOMAIN, TAG, '高德天气API未返回数据, status: %{public}s, info: %{public}s',
-          response.data.status, response.data.info);
+      if (response.data.status !== '1') {
+        hilog.error(DOMAIN, TAG, '高德API返回错误, status: %{public}s, info: %{public}s, infocode: %{public}s',
+          response.data.status, response.data.info, response.data.infocode);
+        throw amapResponseError(response.data);
+      }
+      if (!response.data.lives || response.data.lives.length === 0) {
+        hilog.warn(DOMAIN, TAG, '高德天气API未返回数据, info: %{public}s', response.data.info);
         return null;
       }
 
@@ -327,22 +674,27 @@ export class AmapService {
         weatherInfo.city, weatherInfo.weather, weatherInfo.temperature);
       return weatherInfo;
     } catch (error) {
-      const httpErr = error as HttpError;
-      hilog.error(DOMAIN, TAG, '高德天气查询失败: %{public}s, code: %{public}s',
-        httpErr.message || '网络错误', String(httpErr.code || 'unknown'));
-      return null;
+      const amapErr = toAmapError(error);
+      hilog.error(DOMAIN, TAG, '高德天气查询失败: %{public}s, kind: %{public}s, infocode: %{public}s',
+        amapErr.message, amapErr.kind, amapErr.infocode ?? '-');
+      throw amapErr;
     }
   }
 
   /**
-   * 获取天气预报（未来3天）
+   * 获取天气预报（未来3天），没有数据时返回null，调用失败时抛出 AmapError
    * @param city 城市名称
    * @param adcode 可选的城市编码（如果已获取，可传入以避免重复查询）
    */
-  async getWeatherForecast(city: string, adcode?: string | null): Promise<WeatherForecast[] | null> {
-    if (!this.config.amapKey) {
+  async getWeatherForecast(
+    city: string,
+    adcode?: string | null,
+    signal?: HttpAbortSignal
+  ): Promise<WeatherForecast[] | null> {
+    const key = this.secrets.getSecret('amapKey');
+    if (!key) {
       hilog.error(DOMAIN, TAG, '高德地图密钥未配置');
-      return null;
+      throw new AmapError('auth', '高德地图密钥未配置');
     }
 
     const baseUrl = this.config.amapBaseUrl || 'https://restapi.amap.com/v3';
@@ -355,14 +707,14 @@ export class AmapService {
       let cityParam = city;
       let finalAdcode = adcode;
       if (!finalAdcode) {
-        finalAdcode = await this.getCityAdcode(city);
+        finalAdcode = await this.getCityAdcode(city, signal);
       }
       if (finalAdcode) {
         cityParam = finalAdcode;
       }
 
       const requestParams = {
-        key: this.config.amapKey,
+        key,
         city: cityParam,
         extensions: 'all',
         output: 'JSON',
@@ -371,18 +723,19 @@ export class AmapService {
       hilog.debug(DOMAIN, TAG, '高德天气预报请求参数: %{public}s', JSON.stringify(requestParams));
 
       const startTime = Date.now();
-      const response = await httpGet<AmapWeatherResponse>(url, {
-        params: requestParams,
-        timeout: this.config.networkTimeout || 12000,
-      });
+      const response = await httpGet<AmapWeatherResponse>(url, this.requestOptions(requestParams, signal));
       const duration = Date.now() - startTime;
 
       hilog.info(DOMAIN, TAG, '高德天气预报API响应, 耗时: %{public}dms, status: %{public}s',
         duration, response.data.status);
 
-      if (response.data.status !== '1' || !response.data.forecasts || response.data.forecasts.length === 0) {
-        hilog.warn(DOMAIN, TAG, '高德天气预报API未返回数据, status: %{public}s, info: %{public}s',
-          response.data.status, response.data.info);
+      if (response.data.status !== '1') {
+        hilog.error(DOMAIN, TAG, '高德API返回错误, status: %{public}s, info: %{public}s, infocode: %{public}s',
+          response.data.status, response.data.info, response.data.infocode);
+        throw amapResponseError(response.data);
+      }
+      if (!response.data.forecasts || response.data.forecasts.length === 0) {
+        hilog.warn(DOMAIN, TAG, '高德天气预报API未返回数据, info: %{public}s', response.data.info);
         return null;
       }
 
@@ -403,12 +756,217 @@ export class AmapService {
       hilog.info(DOMAIN, TAG, '获取天气预报成功, city: %{public}s, 预报天数: %{public}d',
         forecast.city, forecasts.length);
       return forecasts;
+    } catch (error) {
+      const amapErr = toAmapError(error);
+      hilog.error(DOMAIN, TAG, '高德天气预报查询失败: %{public}s, kind: %{public}s, infocode: %{public}s',
+        amapErr.message, amapErr.kind, amapErr.infocode ?? '-');
+      throw amapErr;
+    }
+  }
+
+  /**
+   * 步行路线规划
+   * @param origin 起点坐标，格式为"经度,纬度"
+   * @param destination 终点坐标
+   */
+  async getWalkingRoute(origin: string, destination: string, signal?: HttpAbortSignal): Promise<RouteLeg | null> {
+    const data = await this.requestRoute<AmapWalkingResponse>('walking', '/direction/walking', {
+      origin,
+      destination,
+    }, signal);
+    const path = data?.status === '1' ? data.route?.paths?.[0] : undefined;
+    if (!path) {
+      return null;
+    }
+    return {
+      mode: 'walking',
+      origin,
+      destination,
+      distance: toNumber(path.distance) ?? 0,
+      duration: toNumber(path.duration) ?? 0,
+      steps: stepSummaries(path.steps),
+    };
+  }
+
+  /**
+   * 驾车路线规划，费用为高德估算的打车费用
+   */
+  async getDrivingRoute(origin: string, destination: string, signal?: HttpAbortSignal): Promise<RouteLeg | null> {
+    const data = await this.requestRoute<AmapDrivingResponse>('driving', '/direction/driving', {
+      origin,
+      destination,
+      extensions: 'base',
+    }, signal);
+    const path = data?.status === '1' ? data.route?.paths?.[0] : undefined;
+    if (!path) {
+      return null;
+    }
+    return {
+      mode: 'driving',
+      origin,
+      destination,
+      distance: toNumber(path.distance) ?? 0,
+      duration: toNumber(path.duration) ?? 0,
+      cost: toNumber(data?.route?.taxi_cost),
+      steps: stepSummaries(path.steps),
+    };
+  }
+
+  /**
+   * 公交路线规划（含地铁），取高德推荐的第一个方案
+   * @param city 起点所在城市（城市名或adcode）
+   * @param cityd 终点所在城市，跨城时必填
+   */
+  async getTransitRoute(
+    origin: string,
+    destination: string,
+    city: string,
+    cityd?: string,
+    signal?: HttpAbortSignal
+  ): Promise<RouteLeg | null> {
+    const data = await this.requestRoute<AmapTransitResponse>('transit', '/direction/transit/integrated', {
+      origin,
+      destination,
+      city,
+      cityd,
+      strategy: 0,
+    }, signal);
+    const transit = data?.status === '1' ? data.route?.transits?.[0] : undefined;
+    if (!transit) {
+      return null;
+    }
+
+    const steps: string[] = [];
+    for (const segment of transit.segments ?? []) {
+      const walkDistance = toNumber(segment.walking?.distance);
+      if (walkDistance && walkDistance > 0) {
+        steps.push(`步行${walkDistance}米`);
+      }
+      const busline = segment.bus?.buslines?.[0];
+      if (busline) {
+        const from = busline.departure_stop?.name;
+        const to = busline.arrival_stop?.name;
+        steps.push(`乘坐${shortLineName(busline.name)}${from && to ? `（${from} → ${to}）` : ''}`);
+      }
+      if (segment.railway?.name) {
+        const from = segment.railway.departure_stop?.name;
+        const to = segment.railway.arrival_stop?.name;
+        steps.push(`乘坐${segment.railway.name}${from && to ? `（${from} → ${to}）` : ''}`);
+      }
+    }
+
+    return {
+      mode: 'transit',
+      origin,
+      destination,
+      distance: toNumber(transit.distance) ?? toNumber(data?.route?.distance) ?? 0,
+      duration: toNumber(transit.duration) ?? 0,
+      cost: toNumber(transit.cost),
+      steps,
+    };
+  }
+
+  /**
+   * 骑行路线规划（高德v4接口）
+   */
+  async getBicyclingRoute(origin: string, destination: string, signal?: HttpAbortSignal): Promise<RouteLeg | null> {
+    const data = await this.requestRoute<AmapBicyclingResponse>('bicycling', '/direction/bicycling', {
+      origin,
+      destination,
+    }, signal, 'v4');
+    const path = data?.errcode === 0 ? data.data?.paths?.[0] : undefined;
+    if (!path) {
+      return null;
+    }
+    return {
+      mode: 'bicycling',
+      origin,
+      destination,
+      distance: toNumber(path.distance) ?? 0,
+      duration: toNumber(path.duration) ?? 0,
+      steps: stepSummaries(path.steps),
+    };
+  }
+
+  /**
+   * 按出行方式规划两点之间的路线
+   * @param city 公交规划需要的城市
+   */
+  async getRoute(
+    mode: TravelMode,
+    origin: string,
+    destination: string,
+    city: string,
+    signal?: HttpAbortSignal
+  ): Promise<RouteLeg | null> {
+    switch (mode) {
+      case 'walking':
+        return this.getWalkingRoute(origin, destination, signal);
+      case 'driving':
+        return this.getDrivingRoute(origin, destination, signal);
+      case 'transit':
+        return this.getTransitRoute(origin, destination, city, undefined, signal);
+      case 'bicycling':
+        return this.getBicyclingRoute(origin, destination, signal);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 路线规划接口的公共请求逻辑，失败时返回null
+   * @param version 接口版本，骑行规划仅提供v4
+   */
+  private async requestRoute<T>(
+    name: string,
+    path: string,
+    params: Record<string, string | number | undefined>,
+    signal?: HttpAbortSignal,
+    version: 'v3' | 'v4' = 'v3'
+  ): Promise<T | null> {
+    const key = this.secrets.getSecret('amapKey');
+    if (!key) {
+      hilog.error(DOMAIN, TAG, '高德地图密钥未配置');
+      return null;
+    }
+
+    let baseUrl = this.config.amapBaseUrl || 'https://restapi.amap.com/v3';
+    if (version === 'v4') {
+      baseUrl = baseUrl.replace(/\/v3$/, '/v4');
+    }
+    const url = `${baseUrl}${path}`;
+
+    hilog.info(DOMAIN, TAG, '开始调用高德地图路线规划API（%{public}s）, origin: %{public}s, destination: %{public}s',
+      name, String(params.origin), String(params.destination));
+
+    try {
+      const startTime = Date.now();
+      const response = await httpGet<T>(url,
+        this.requestOptions({ key, output: 'JSON', ...params }, signal));
+      const duration = Date.now() - startTime;
+      hilog.info(DOMAIN, TAG, '高德路线规划API响应（%{public}s）, 耗时: %{public}dms', name, duration);
+      return response.data;
     } catch (error) {
       const httpErr = error as HttpError;
-      hilog.error(DOMAIN, TAG, '高德天气预报查询失败: %{public}s, code: %{public}s',
-        httpErr.message || '网络错误', String(httpErr.code || 'unknown'));
+      hilog.warn(DOMAIN, TAG, '高德路线规划失败（%{public}s）: %{public}s, code: %{public}s',
+        name, httpErr.message || '网络错误', String(httpErr.code || 'unknown'));
       return null;
     }
   }
-}
 
+  /**
+   * 高德接口的公共请求选项：单次超时、整体截止时间与重试次数
+   */
+  private requestOptions(
+    params: Record<string, string | number | undefined>,
+    signal?: HttpAbortSignal
+  ): RequestOptions {
+    return {
+      params,
+      timeout: this.config.networkTimeout || 12000,
+      deadline: this.config.amapDeadline || 20000,
+      retry: { retries: this.config.httpRetries ?? 2 },
+      signal,
+    };
+  }
+}
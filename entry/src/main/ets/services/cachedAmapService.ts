@@ -0,0 +1,101 @@
+import common from '@ohos.app.ability.common';
+import { AmapService } from './amapService';
+import type { AppConfig } from '../common/config';
+import type { PoiItem, PoiQuery, WeatherForecast, WeatherInfo } from './types';
+import { TtlCache } from '../common/ttlCache';
+import type { HttpAbortSignal } from '../common/httpClient';
+import type { SecretReader } from '../common/secretStore';
+import { RdbCacheStore } from '../common/rdbCacheStore';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * 各接口缓存有效期（毫秒），0 表示永不过期
+ */
+export const AMAP_CACHE_TTL = {
+  adcode: 0, // 城市编码基本不变
+  geocode: 7 * 24 * HOUR,
+  weather: 30 * MINUTE,
+  forecast: 3 * HOUR,
+  poi: 24 * HOUR,
+};
+
+const AMAP_CACHE_DB = 'amap_cache.db';
+const AMAP_CACHE_MAX_ENTRIES = 500;
+const AMAP_CACHE_MAX_BYTES = 4 * 1024 * 1024;
+
+/**
+ * 创建持久化的高德接口缓存
+ */
+export function createAmapCache(context: common.Context): TtlCache {
+  return new TtlCache(new RdbCacheStore(context, AMAP_CACHE_DB), {
+    name: 'amap',
+    maxEntries: AMAP_CACHE_MAX_ENTRIES,
+    maxBytes: AMAP_CACHE_MAX_BYTES,
+  });
+}
+
+/**
+ * 带缓存的高德服务：城市编码、地理编码、天气与POI搜索优先读取缓存
+ * 失败结果（null或空列表）不写入缓存
+ */
+export class CachedAmapService extends AmapService {
+  private cache: TtlCache;
+
+  constructor(config: AppConfig, secrets: SecretReader, cache: TtlCache) {
+    super(config, secrets);
+    this.cache = cache;
+  }
+
+  getCache(): TtlCache {
+    return this.cache;
+  }
+
+  async searchPoi(keywords: string, city?: string, signal?: HttpAbortSignal): Promise<PoiItem[]> {
+    const key = `poi:${city || ''}:${keywords}`;
+    return this.cache.getOrLoad(key, AMAP_CACHE_TTL.poi, () => super.searchPoi(keywords, city, signal),
+      (pois: PoiItem[]) => pois.length > 0);
+  }
+
+  async searchPoiPaged(
+    query: PoiQuery,
+    city: string | undefined,
+    maxResults: number,
+    signal?: HttpAbortSignal
+  ): Promise<PoiItem[]> {
+    const scope = query.cityLimit ? ':limit' : '';
+    const key = `poi:${city || ''}:${query.keywords || ''}:${query.types || ''}:${maxResults}${scope}`;
+    return this.cache.getOrLoad(key, AMAP_CACHE_TTL.poi, () => super.searchPoiPaged(query, city, maxResults, signal),
+      (pois: PoiItem[]) => pois.length > 0);
+  }
+
+  async geocode(
+    address: string,
+    city?: string,
+    signal?: HttpAbortSignal
+  ): Promise<{ location: string; address: string } | null> {
+    const key = `geocode:${city || ''}:${address}`;
+    return this.cache.getOrLoad(key, AMAP_CACHE_TTL.geocode, () => super.geocode(address, city, signal));
+  }
+
+  async getCityAdcode(cityName: string, signal?: HttpAbortSignal): Promise<string | null> {
+    return this.cache.getOrLoad(`adcode:${cityName}`, AMAP_CACHE_TTL.adcode,
+      () => super.getCityAdcode(cityName, signal));
+  }
+
+  async getWeather(city: string, adcode?: string | null, signal?: HttpAbortSignal): Promise<WeatherInfo | null> {
+    const key = `weather:${adcode || city}`;
+    return this.cache.getOrLoad(key, AMAP_CACHE_TTL.weather, () => super.getWeather(city, adcode, signal));
+  }
+
+  async getWeatherForecast(
+    city: string,
+    adcode?: string | null,
+    signal?: HttpAbortSignal
+  ): Promise<WeatherForecast[] | null> {
+    const key = `forecast:${adcode || city}`;
+    return this.cache.getOrLoad(key, AMAP_CACHE_TTL.forecast, () => super.getWeatherForecast(city, adcode, signal),
+      (forecasts: WeatherForecast[] | null) => !!forecasts && forecasts.length > 0);
+  }
+}
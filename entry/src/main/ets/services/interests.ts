@@ -0,0 +1,45 @@
+import type { InterestId, PoiQuery } from './types';
+
+/**
+ * 兴趣偏好名称
+ */
+export const INTEREST_NAMES: Record<InterestId, string> = {
+  food: '美食',
+  nature: '自然风光',
+  citywalk: '城市漫步',
+  family: '亲子',
+  adventure: '小众冒险',
+  drive: '自驾',
+  hiking: '徒步',
+  climbing: '爬山',
+  shopping: '商场逛街',
+};
+
+/**
+ * 兴趣偏好对应的高德POI搜索条件，分类编码见高德《POI分类编码表》
+ * 分类过宽的兴趣（徒步、爬山等）再用关键词收窄
+ */
+export const INTEREST_POI_QUERIES: Record<InterestId, PoiQuery> = {
+  food: { types: '050000' }, // 餐饮服务
+  nature: { types: '110101|110103|110202|110203|110208|110209' }, // 公园、植物园、国家级/省级景点、海滩、观景点
+  citywalk: { types: '061000|110105|110204' }, // 特色商业街、城市广场、纪念馆
+  family: { types: '110102|110104|080501|140600|140700' }, // 动物园、水族馆、游乐场、科技馆、天文馆
+  adventure: { types: '110200', keywords: '小众景点|古村落' },
+  drive: { types: '110202|110209' }, // 国家级景点、观景点
+  hiking: { types: '110101|110200', keywords: '徒步|森林公园|郊野公园' },
+  climbing: { types: '110200', keywords: '山|登山' },
+  shopping: { types: '060100|061000' }, // 商场、特色商业街
+};
+
+/**
+ * 通用景点搜索条件：风景名胜与博物馆
+ */
+export const SIGHTSEEING_POI_QUERY: PoiQuery = { types: '110000|140100' };
+
+export function isInterestId(value: string): value is InterestId {
+  return Object.prototype.hasOwnProperty.call(INTEREST_NAMES, value);
+}
+
+export function interestNames(interests: InterestId[]): string[] {
+  return interests.map(id => INTEREST_NAMES[id]);
+}
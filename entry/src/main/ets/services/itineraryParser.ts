@@ -0,0 +1,468 @@
+import type {
+  BudgetItem,
+  GroundingStatus,
+  Itinerary,
+  ItineraryBudget,
+  ItineraryDay,
+  ItineraryMeal,
+  ItinerarySlot,
+  MealType,
+  OutfitAdvice,
+  PoiItem,
+  RainyAlternative,
+  RecommendationOptions
+} from './types';
+import { hilog } from '@kit.PerformanceAnalysisKit';
+
+const DOMAIN = 0x0000;
+const TAG = 'ItineraryParser';
+
+const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+const MEAL_LABELS: Record<MealType, string> = {
+  breakfast: '早餐',
+  lunch: '午餐',
+  dinner: '晚餐',
+  snack: '小吃',
+};
+
+/**
+ * 要求大模型输出的JSON结构说明（poiIndex 为POI列表中的序号，从1开始）
+ */
+export const ITINERARY_JSON_INSTRUCTION = `请严格只输出一个JSON对象，不要输出任何其他文字或Markdown代码块标记，格式如下：
+{
+  "title": "行程标题",
+  "overview": "行程概述",
+  "days": [
+    {
+      "day": 1,
+      "theme": "当日主题",
+      "slots": [
+        { "time": "08:30", "endTime": "10:30", "poiIndex": 1, "name": "地点名称", "activity": "活动内容", "reason": "推荐理由" }
+      ],
+      "meals": [
+        { "type": "lunch", "name": "餐厅名称", "poiIndex": 3, "note": "推荐菜品" }
+      ],
+      "tips": ["当日注意事项"]
+    }
+  ],
+  "tips": ["整体出行建议"]
+}
+其中 poiIndex 为上述POI列表中的序号（从1开始），推荐的地点不在列表中时省略 poiIndex；meals.type 取值为 breakfast、lunch、dinner、snack；time 使用24小时制 HH:mm。`;
+
+/**
+ * 根据用户选择的可选功能补充JSON结构说明
+ * @param multiCity 是否为多目的地行程，是时要求每天标明所在城市和换城交通
+ */
+export function buildItineraryInstruction(options?: RecommendationOptions, multiCity: boolean = false): string {
+  let instruction = ITINERARY_JSON_INSTRUCTION;
+  if (multiCity) {
+    instruction += '\n这是多城市行程：请为每天增加 "city" 字段标明当天所在城市，严格按行程路线顺序和各城市天数安排；' +
+      '换城当天增加 "transfer" 字段说明城际交通（出发时间、交通方式、预计耗时），当天只安排抵达城市的少量轻松活动；' +
+      '每个城市只选用该城市的POI。';
+  }
+  if (options?.routePlanning) {
+    instruction += '\n请为每个slot增加 "transport" 字段，说明从上一站前往该地点的交通方式及预计耗时，并按顺路原则安排地点顺序。';
+  }
+  if (options?.queryWeather !== false) {
+    instruction += '\n请结合逐日天气安排行程：POI列表中标注了室内/户外，户外地点尽量安排在天气较好的日子，雨雪天多安排室内地点；' +
+      '每个户外地点的slot增加 "rainyAlternative" 字段给出雨天备选：{ "name": "室内地点名称", "poiIndex": 5, "activity": "活动内容" }；' +
+      '每天增加 "outfit" 字段给出穿搭建议：{ "summary": "总体建议", "clothing": ["建议衣物"], "accessories": ["随身物品，如雨伞"] }。';
+  }
+  if (options?.generateBudget) {
+    instruction += '\n请在JSON顶层增加 "budget" 字段：{ "items": [ { "category": "交通", "amount": 200, "note": "说明" } ], "total": 3000 }，' +
+      'category 取值为交通、住宿、餐饮、门票、其他，金额单位为元，按同行人数计算总花费。';
+  }
+  return instruction;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed ? trimmed : undefined;
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return undefined;
+}
+
+function asStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map(asString).filter((item): item is string => !!item);
+}
+
+/**
+ * 将大模型给出的序号（从1开始）转换为POI列表下标，超出范围返回undefined
+ */
+function resolvePoiIndex(value: unknown, pois: PoiItem[]): number | undefined {
+  const num = typeof value === 'string' ? Number(value) : value;
+  if (typeof num !== 'number' || !Number.isInteger(num)) {
+    return undefined;
+  }
+  const index = num - 1;
+  return index >= 0 && index < pois.length ? index : undefined;
+}
+
+function normalizeTime(value: unknown): string | undefined {
+  const text = asString(value);
+  if (!text) {
+    return undefined;
+  }
+  const match = text.match(/^(\d{1,2})[:：](\d{2})$/);
+  if (!match) {
+    return text;
+  }
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+}
+
+function parseRainyAlternative(raw: unknown, pois: PoiItem[]): RainyAlternative | undefined {
+  if (!isObject(raw)) {
+    const name = asString(raw);
+    return name ? { name } : undefined;
+  }
+  const poiIndex = resolvePoiIndex(raw.poiIndex, pois);
+  const name = asString(raw.name) || (poiIndex !== undefined ? pois[poiIndex].name : undefined);
+  return name ? { name, poiIndex, activity: asString(raw.activity) } : undefined;
+}
+
+/**
+ * 穿搭建议，兼容大模型直接给出一段文字的情况
+ */
+function parseOutfit(raw: unknown): OutfitAdvice | undefined {
+  if (!isObject(raw)) {
+    const summary = asString(raw);
+    return summary ? { summary, clothing: [], accessories: [] } : undefined;
+  }
+  const clothing = asStringList(raw.clothing);
+  const accessories = asStringList(raw.accessories);
+  const summary = asString(raw.summary) ?? '';
+  if (!summary && clothing.length === 0 && accessories.length === 0) {
+    return undefined;
+  }
+  return { summary, clothing, accessories };
+}
+
+function parseSlot(raw: unknown, pois: PoiItem[]): ItinerarySlot | null {
+  if (!isObject(raw)) {
+    return null;
+  }
+  const poiIndex = resolvePoiIndex(raw.poiIndex, pois);
+  const poi = poiIndex !== undefined ? pois[poiIndex] : undefined;
+  const name = asString(raw.name) || poi?.name;
+  const time = normalizeTime(raw.time);
+  if (!name || !time) {
+    return null;
+  }
+  return {
+    time,
+    endTime: normalizeTime(raw.endTime),
+    poiIndex,
+    name,
+    activity: asString(raw.activity),
+    reason: asString(raw.reason),
+    address: poi?.address,
+    location: poi?.location,
+    transport: asString(raw.transport),
+    setting: poi?.setting,
+    rainyAlternative: parseRainyAlternative(raw.rainyAlternative, pois),
+  };
+}
+
+function asAmount(value: unknown): number | undefined {
+  const num = typeof value === 'string' ? Number(value.replace(/[^\d.]/g, '')) : value;
+  return typeof num === 'number' && Number.isFinite(num) && num >= 0 ? Math.round(num) : undefined;
+}
+
+function parseBudget(raw: unknown): ItineraryBudget | undefined {
+  if (!isObject(raw) || !Array.isArray(raw.items)) {
+    return undefined;
+  }
+  const items: BudgetItem[] = [];
+  for (const item of raw.items) {
+    if (!isObject(item)) {
+      continue;
+    }
+    const category = asString(item.category);
+    const amount = asAmount(item.amount);
+    if (category && amount !== undefined) {
+      items.push({ category, amount, note: asString(item.note) });
+    }
+  }
+  if (items.length === 0) {
+    return undefined;
+  }
+  const total = asAmount(raw.total) ?? items.reduce((sum, item) => sum + item.amount, 0);
+  return { items, total };
+}
+
+function parseMeal(raw: unknown, pois: PoiItem[]): ItineraryMeal | null {
+  if (!isObject(raw)) {
+    return null;
+  }
+  const poiIndex = resolvePoiIndex(raw.poiIndex, pois);
+  const name = asString(raw.name) || (poiIndex !== undefined ? pois[poiIndex].name : undefined);
+  if (!name) {
+    return null;
+  }
+  const type = MEAL_TYPES.find(t => t === raw.type) ?? 'snack';
+  return {
+    type,
+    name,
+    poiIndex,
+    note: asString(raw.note),
+  };
+}
+
+function parseDay(raw: unknown, position: number, pois: PoiItem[]): ItineraryDay | null {
+  if (!isObject(raw) || !Array.isArray(raw.slots)) {
+    return null;
+  }
+  const slots = raw.slots
+    .map(slot => parseSlot(slot, pois))
+    .filter((slot): slot is ItinerarySlot => slot !== null);
+  if (slots.length === 0) {
+    return null;
+  }
+  const meals = Array.isArray(raw.meals)
+    ? raw.meals.map(meal => parseMeal(meal, pois)).filter((meal): meal is ItineraryMeal => meal !== null)
+    : [];
+  const day = typeof raw.day === 'number' && raw.day > 0 ? Math.floor(raw.day) : position + 1;
+  return {
+    day,
+    city: asString(raw.city),
+    transfer: asString(raw.transfer),
+    theme: asString(raw.theme),
+    slots,
+    meals,
+    tips: asStringList(raw.tips),
+    outfit: parseOutfit(raw.outfit),
+  };
+}
+
+/**
+ * 从大模型返回内容中截取JSON对象文本（兼容```json代码块和前后多余文字）
+ */
+function extractJsonText(content: string): string | null {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : content;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    return null;
+  }
+  return text.substring(start, end + 1);
+}
+
+/**
+ * 校验并解析大模型返回的JSON行程，不合法时返回null（调用方回退为纯文本展示）
+ * @param content 大模型原始返回内容
+ * @param pois 发送给大模型的POI列表，用于解析 poiIndex
+ */
+export function parseItinerary(content: string, pois: PoiItem[]): Itinerary | null {
+  const jsonText = extractJsonText(content);
+  if (!jsonText) {
+    hilog.warn(DOMAIN, TAG, '大模型返回内容中未找到JSON对象');
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonText);
+  } catch (error) {
+    hilog.warn(DOMAIN, TAG, '行程JSON解析失败: %{public}s', (error as Error).message);
+    return null;
+  }
+
+  if (!isObject(raw) || !Array.isArray(raw.days)) {
+    hilog.warn(DOMAIN, TAG, '行程JSON缺少days字段');
+    return null;
+  }
+
+  const days = raw.days
+    .map((day, index) => parseDay(day, index, pois))
+    .filter((day): day is ItineraryDay => day !== null);
+  if (days.length === 0) {
+    hilog.warn(DOMAIN, TAG, '行程JSON中没有有效的日程');
+    return null;
+  }
+
+  return {
+    title: asString(raw.title) || '行程安排',
+    overview: asString(raw.overview),
+    days,
+    tips: asStringList(raw.tips),
+    budget: parseBudget(raw.budget),
+  };
+}
+
+/**
+ * 雨天备选描述，如"四川博物院（看青铜器展）"
+ */
+export function formatRainyAlternative(alternative: RainyAlternative): string {
+  return `${alternative.name}${alternative.activity ? `（${alternative.activity}）` : ''}`;
+}
+
+/**
+ * 穿搭建议描述，如"早晚凉，外套随身；冲锋衣、长裤；带上雨伞"
+ */
+export function formatOutfit(outfit: OutfitAdvice): string {
+  const parts: string[] = [];
+  if (outfit.summary) {
+    parts.push(outfit.summary);
+  }
+  if (outfit.clothing.length > 0) {
+    parts.push(outfit.clothing.join('、'));
+  }
+  if (outfit.accessories.length > 0) {
+    parts.push(`带上${outfit.accessories.join('、')}`);
+  }
+  return parts.join('；');
+}
+
+/**
+ * 未能在地图上找到的地点在文本中标注
+ */
+function unverifiedMark(grounding?: GroundingStatus): string {
+  return grounding === 'unverified' ? '（待核实）' : '';
+}
+
+/**
+ * 将结构化行程渲染为纯文本摘要（用于 summary 字段和不支持结构化展示的页面）
+ */
+export function formatItinerary(itinerary: Itinerary): string {
+  const lines: string[] = [itinerary.title];
+  if (itinerary.overview) {
+    lines.push('', itinerary.overview);
+  }
+  for (const day of itinerary.days) {
+    lines.push('', `第${day.day}天${day.city ? `（${day.city}）` : ''}${day.theme ? `：${day.theme}` : ''}`);
+    if (day.transfer) {
+      lines.push(`换城：${day.transfer}`);
+    }
+    for (const slot of day.slots) {
+      const time = slot.endTime ? `${slot.time}-${slot.endTime}` : slot.time;
+      if (slot.transport) {
+        lines.push(`交通：${slot.transport}`);
+      }
+      lines.push(`${time} ${slot.name}${unverifiedMark(slot.grounding)}${slot.activity ? `：${slot.activity}` : ''}`);
+      if (slot.reason) {
+        lines.push(`推荐理由：${slot.reason}`);
+      }
+      if (slot.rainyAlternative) {
+        lines.push(`雨天备选：${formatRainyAlternative(slot.rainyAlternative)}`);
+      }
+    }
+    for (const meal of day.meals) {
+      const note = meal.note ? `（${meal.note}）` : '';
+      lines.push(`${MEAL_LABELS[meal.type]}：${meal.name}${unverifiedMark(meal.grounding)}${note}`);
+    }
+    for (const tip of day.tips) {
+      lines.push(`提示：${tip}`);
+    }
+    if (day.outfit) {
+      lines.push(`穿搭：${formatOutfit(day.outfit)}`);
+    }
+  }
+  if (itinerary.budget) {
+    lines.push('', '预算明细');
+    itinerary.budget.items.forEach(item => {
+      lines.push(`${item.category}：${item.amount}元${item.note ? `（${item.note}）` : ''}`);
+    });
+    lines.push(`合计：${itinerary.budget.total}元`);
+  }
+  if (itinerary.tips.length > 0) {
+    lines.push('', '出行建议');
+    itinerary.tips.forEach(tip => lines.push(tip));
+  }
+  return lines.join('\n');
+}
+
+function unescapeJsonString(raw: string): string {
+  try {
+    return JSON.parse(`"${raw}"`) as string;
+  } catch (e) {
+    return raw;
+  }
+}
+
+/**
+ * 流式输出过程中，从尚未完整的JSON文本里提取已完整接收的字段，生成可读的预览文本
+ * 返回内容不是JSON时原样返回
+ */
+export function previewItinerary(partial: string): string {
+  const trimmed = partial.trimStart();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('```')) {
+    return partial;
+  }
+
+  const lines: string[] = [];
+  const appendToLast = (text: string) => {
+    if (lines.length === 0) {
+      lines.push(text);
+    } else {
+      lines[lines.length - 1] += text;
+    }
+  };
+
+  const pattern = /"(title|overview|day|city|transfer|theme|time|name|activity|reason|note)"\s*:\s*(?:"((?:[^"\\]|\\.)*)"|(\d+))/g;
+  let match = pattern.exec(partial);
+  while (match !== null) {
+    const key = match[1];
+    const value = match[2] !== undefined ? unescapeJsonString(match[2]) : match[3];
+    const last = lines.length > 0 ? lines[lines.length - 1] : '';
+    switch (key) {
+      case 'day':
+        lines.push('', `第${value}天`);
+        break;
+      case 'city':
+        if (/^第\d+天$/.test(last)) {
+          appendToLast(`（${value}）`);
+        }
+        break;
+      case 'transfer':
+        lines.push(`换城：${value}`);
+        break;
+      case 'theme':
+        if (/^第\d+天(（[^）]*）)?$/.test(last)) {
+          appendToLast(`：${value}`);
+        } else {
+          lines.push(value);
+        }
+        break;
+      case 'name':
+        if (/^\d{1,2}:\d{2}$/.test(last)) {
+          appendToLast(` ${value}`);
+        } else {
+          lines.push(value);
+        }
+        break;
+      case 'activity':
+        appendToLast(`：${value}`);
+        break;
+      case 'reason':
+        lines.push(`推荐理由：${value}`);
+        break;
+      case 'note':
+        appendToLast(`（${value}）`);
+        break;
+      default:
+        lines.push(value);
+        break;
+    }
+    match = pattern.exec(partial);
+  }
+  return lines.join('\n');
+}
+
+export function mealLabel(type: MealType): string {
+  return MEAL_LABELS[type];
+}
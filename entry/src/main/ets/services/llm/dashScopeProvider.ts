@@ -0,0 +1,50 @@
+import { OpenAiCompatibleProvider, type OpenAiProviderOptions } from './openAiCompatibleProvider';
+import type { LlmCompletionRequest, LlmErrorKind, VendorErrorPayload } from './llmProvider';
+
+export const DASHSCOPE_BASE_URL = 'https://dashscope.aliyuncs.com/compatible-mode/v1';
+export const DASHSCOPE_DEFAULT_MODEL = 'qwen-plus';
+
+/**
+ * 阿里云百炼（通义千问）兼容模式，支持 enable_search 联网搜索
+ */
+export class DashScopeProvider extends OpenAiCompatibleProvider {
+  private enableSearch: boolean;
+
+  constructor(options: OpenAiProviderOptions, enableSearch: boolean) {
+    super(options, 'dashscope');
+    this.enableSearch = enableSearch;
+  }
+
+  protected buildBody(request: LlmCompletionRequest, stream: boolean): Record<string, unknown> {
+    return {
+      ...super.buildBody(request, stream),
+      enable_search: this.enableSearch,
+    };
+  }
+
+  /**
+   * 百炼错误码同时存在驼峰（原生接口）和下划线（兼容模式）两种写法
+   */
+  protected classifyError(payload: VendorErrorPayload): LlmErrorKind | undefined {
+    const code = (payload.code ?? '').toLowerCase();
+    if (/datainspectionfailed|data_inspection_failed/.test(code)) {
+      return 'content_filter';
+    }
+    if (/arrearage|insufficient_quota|free_tier/.test(code)) {
+      return 'quota';
+    }
+    if (/invalidapikey|invalid_api_key|accessdenied|access_denied/.test(code)) {
+      return 'auth';
+    }
+    if (/throttling|limit_requests|rate_limit/.test(code)) {
+      return 'rate_limit';
+    }
+    if (/modelnotfound|model_not_found/.test(code)) {
+      return 'model_not_found';
+    }
+    if (payload.message && /range of input length|input length/i.test(payload.message)) {
+      return 'context_length';
+    }
+    return super.classifyError(payload);
+  }
+}
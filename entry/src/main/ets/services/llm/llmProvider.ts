@@ -0,0 +1,180 @@
+import { HttpError, type HttpAbortSignal } from '../../common/httpClient';
+import type { LlmProviderId } from '../../common/config';
+
+export type { LlmProviderId } from '../../common/config';
+
+export interface LlmChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * 流式输出回调
+ * @param delta 本次新增的文本
+ * @param content 截至目前的完整文本
+ */
+export type LlmStreamHandler = (delta: string, content: string) => void;
+
+export interface LlmCompletionRequest {
+  messages: LlmChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  signal?: HttpAbortSignal;
+}
+
+/**
+ * 大模型提供方：屏蔽各厂商的请求参数与错误格式差异，调用方只处理 LlmError
+ */
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly model: string;
+  /**
+   * 是否具备调用条件（云端服务需要配置密钥）
+   */
+  isConfigured(): boolean;
+  complete(request: LlmCompletionRequest): Promise<string>;
+  completeStream(request: LlmCompletionRequest, onDelta: LlmStreamHandler): Promise<string>;
+}
+
+export type LlmErrorKind =
+  | 'auth' // 密钥无效或无权限
+  | 'quota' // 欠费或额度用尽
+  | 'rate_limit' // 请求过于频繁
+  | 'content_filter' // 内容审核未通过
+  | 'context_length' // 输入超出模型上下文长度
+  | 'model_not_found' // 模型不存在或未下载
+  | 'timeout'
+  | 'network'
+  | 'aborted'
+  | 'server' // 服务端异常
+  | 'empty' // 返回内容为空
+  | 'unknown';
+
+const ERROR_LABELS: Record<LlmErrorKind, string> = {
+  auth: '大模型密钥无效或无权限',
+  quota: '大模型账户额度不足',
+  rate_limit: '大模型请求过于频繁',
+  content_filter: '内容未通过大模型安全审核',
+  context_length: '对话内容超出模型上下文长度',
+  model_not_found: '大模型不存在或未加载',
+  timeout: '大模型响应超时',
+  network: '无法连接大模型服务',
+  aborted: '请求已取消',
+  server: '大模型服务异常',
+  empty: '大模型返回内容为空',
+  unknown: '大模型调用失败',
+};
+
+/**
+ * 统一的大模型错误，detail 保留厂商返回的原始信息
+ */
+export class LlmError extends Error {
+  kind: LlmErrorKind;
+  provider: LlmProviderId;
+  status?: number;
+  detail?: string;
+
+  constructor(kind: LlmErrorKind, provider: LlmProviderId, detail?: string, status?: number) {
+    super(detail && detail !== ERROR_LABELS[kind] ? `${ERROR_LABELS[kind]}: ${detail}` : ERROR_LABELS[kind]);
+    this.name = 'LlmError';
+    this.kind = kind;
+    this.provider = provider;
+    this.detail = detail;
+    this.status = status;
+  }
+}
+
+/**
+ * 厂商错误体中的关键字段，兼容 {error: {code, message, type}}、{error: "..."} 与 {code, message}
+ */
+export interface VendorErrorPayload {
+  code?: string;
+  message?: string;
+  type?: string;
+}
+
+export function readVendorError(payload: unknown): VendorErrorPayload | null {
+  let value = payload;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (e) {
+      return null;
+    }
+  }
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  if (typeof record.error === 'string') {
+    return { message: record.error };
+  }
+  const source = record.error && typeof record.error === 'object'
+    ? record.error as Record<string, unknown>
+    : record;
+  const message = typeof source.message === 'string' ? source.message : undefined;
+  const code = source.code !== undefined && source.code !== null ? String(source.code) : undefined;
+  if (!message && !code) {
+    return null;
+  }
+  return {
+    code,
+    message,
+    type: typeof source.type === 'string' ? source.type : undefined,
+  };
+}
+
+/**
+ * 按HTTP状态码归类
+ */
+export function kindFromStatus(status: number): LlmErrorKind {
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 402) {
+    return 'quota';
+  }
+  if (status === 404) {
+    return 'model_not_found';
+  }
+  if (status === 429) {
+    return 'rate_limit';
+  }
+  if (status >= 500) {
+    return 'server';
+  }
+  return 'unknown';
+}
+
+/**
+ * 将HTTP层错误转换为 LlmError
+ * @param classify 按厂商错误码/信息归类，无法识别时返回undefined
+ */
+export function toLlmError(
+  error: unknown,
+  provider: LlmProviderId,
+  classify: (payload: VendorErrorPayload) => LlmErrorKind | undefined
+): LlmError {
+  if (error instanceof LlmError) {
+    return error;
+  }
+  if (error instanceof HttpError) {
+    if (error.kind === 'aborted') {
+      return new LlmError('aborted', provider, error.message);
+    }
+    if (error.kind === 'timeout') {
+      return new LlmError('timeout', provider, error.message);
+    }
+    if (error.kind === 'network') {
+      return new LlmError('network', provider, error.message);
+    }
+    if (error.kind === 'status' && error.status !== undefined) {
+      const payload = readVendorError(error.body);
+      const kind = (payload && classify(payload)) ?? kindFromStatus(error.status);
+      return new LlmError(kind, provider, payload?.message ?? error.message, error.status);
+    }
+    return new LlmError('unknown', provider, error.message);
+  }
+  const err = error as Error;
+  return new LlmError('unknown', provider, err?.message);
+}
@@ -0,0 +1,41 @@
+import { OpenAiCompatibleProvider, type OpenAiProviderOptions } from './openAiCompatibleProvider';
+import type { LlmErrorKind, VendorErrorPayload } from './llmProvider';
+
+export type LocalLlmServer = 'ollama' | 'llamacpp';
+
+// 模拟器访问宿主机时需将地址改为宿主机IP
+export const LOCAL_LLM_BASE_URLS: Record<LocalLlmServer, string> = {
+  ollama: 'http://127.0.0.1:11434/v1',
+  llamacpp: 'http://127.0.0.1:8080/v1',
+};
+
+export const LOCAL_LLM_DEFAULT_MODELS: Record<LocalLlmServer, string> = {
+  ollama: 'qwen2.5:7b',
+  llamacpp: 'local', // llama.cpp 只加载一个模型，忽略该字段
+};
+
+/**
+ * 本地模型服务（Ollama / llama.cpp server 的OpenAI兼容接口），不需要密钥
+ */
+export class LocalLlmProvider extends OpenAiCompatibleProvider {
+  constructor(options: OpenAiProviderOptions, server: LocalLlmServer) {
+    super(options, server);
+  }
+
+  /**
+   * Ollama 错误为 {error: "..."} 纯文本，llama.cpp 使用 type 区分错误
+   */
+  protected classifyError(payload: VendorErrorPayload): LlmErrorKind | undefined {
+    const message = (payload.message ?? '').toLowerCase();
+    if (/model .*not found|try pulling it first|no such file/.test(message)) {
+      return 'model_not_found';
+    }
+    if (/context size|context length|too long/.test(message)) {
+      return 'context_length';
+    }
+    if (/loading model/.test(message)) {
+      return 'server';
+    }
+    return super.classifyError(payload);
+  }
+}
@@ -0,0 +1,264 @@
+import { httpPost, httpPostStream, SseEvent, type RequestOptions } from '../../common/httpClient';
+import {
+  LlmError,
+  readVendorError,
+  toLlmError,
+  type LlmCompletionRequest,
+  type LlmErrorKind,
+  type LlmProvider,
+  type LlmProviderId,
+  type LlmStreamHandler,
+  type VendorErrorPayload
+} from './llmProvider';
+import { hilog } from '@kit.PerformanceAnalysisKit';
+
+const DOMAIN = 0x0000;
+const TAG = 'LlmProvider';
+
+export interface OpenAiChatResponse {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    index?: number;
+    message?: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason?: string;
+  }>;
+  error?: unknown;
+}
+
+export interface OpenAiChatStreamChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    index?: number;
+    delta?: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason?: string | null;
+  }>;
+  error?: unknown;
+}
+
+export interface OpenAiProviderOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  requiresApiKey: boolean;
+  timeout: number; // 单次请求的连接/读取超时（毫秒）
+  deadline: number; // 整个调用的时长上限（毫秒）
+  retries: number;
+}
+
+/**
+ * OpenAI兼容的 /chat/completions 接口
+ * 子类通过 buildBody 补充厂商参数，通过 classifyError 识别厂商错误码
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly id: LlmProviderId;
+  readonly model: string;
+  protected options: OpenAiProviderOptions;
+
+  constructor(options: OpenAiProviderOptions, id: LlmProviderId = 'openai') {
+    this.id = id;
+    this.model = options.model;
+    this.options = options;
+  }
+
+  isConfigured(): boolean {
+    return !this.options.requiresApiKey || !!this.options.apiKey;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    const url = this.prepareRequest();
+    const body = this.buildBody(request, false);
+
+    try {
+      const startTime = Date.now();
+      const response = await httpPost<OpenAiChatResponse>(url, body, this.requestOptions(request));
+      const duration = Date.now() - startTime;
+
+      hilog.info(DOMAIN, TAG, '[%{public}s] 大模型API响应成功, 耗时: %{public}dms, statusCode: %{public}d',
+        this.id, duration, response.statusCode);
+
+      const payload = response.data.error !== undefined ? readVendorError(response.data) : null;
+      if (payload) {
+        throw this.payloadError(payload);
+      }
+
+      const content = response.data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new LlmError('empty', this.id);
+      }
+
+      hilog.info(DOMAIN, TAG, '[%{public}s] 大模型返回内容长度: %{public}d字符', this.id, content.length);
+      hilog.debug(DOMAIN, TAG, '大模型返回内容预览: %{public}s', content.substring(0, 100));
+      return content;
+    } catch (error) {
+      const llmError = this.normalizeError(error);
+      hilog.error(DOMAIN, TAG, '[%{public}s] 大模型调用失败: %{public}s, kind: %{public}s',
+        this.id, llmError.message, llmError.kind);
+      throw llmError;
+    }
+  }
+
+  async completeStream(request: LlmCompletionRequest, onDelta: LlmStreamHandler): Promise<string> {
+    const url = this.prepareRequest();
+    const body = this.buildBody(request, true);
+
+    let content = '';
+    let done = false;
+    let chunkCount = 0;
+
+    const handleEvent = (event: SseEvent) => {
+      if (done) {
+        return;
+      }
+      if (event.data === '[DONE]') {
+        done = true;
+        return;
+      }
+      let chunk: OpenAiChatStreamChunk;
+      try {
+        chunk = JSON.parse(event.data) as OpenAiChatStreamChunk;
+      } catch (e) {
+        hilog.warn(DOMAIN, TAG, '忽略无法解析的流式数据: %{public}s', event.data.substring(0, 100));
+        return;
+      }
+      // 流中途返回的错误（如内容审核、限流）
+      const payload = chunk.error !== undefined ? readVendorError(chunk) : null;
+      if (payload) {
+        throw this.payloadError(payload);
+      }
+      const choice = chunk.choices?.[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        chunkCount++;
+        content += delta;
+        onDelta(delta, content);
+      }
+      if (choice?.finish_reason) {
+        hilog.info(DOMAIN, TAG, '大模型流式输出结束, finish_reason: %{public}s', choice.finish_reason);
+      }
+    };
+
+    // 回调中抛出的 LlmError 会被HTTP层包装，这里记录原始错误以便原样返回（使用对象承载以避免类型收窄）
+    const state: { handlerError: LlmError | null } = { handlerError: null };
+    const guardedHandler = (event: SseEvent) => {
+      try {
+        handleEvent(event);
+      } catch (error) {
+        state.handlerError = this.normalizeError(error);
+        throw error;
+      }
+    };
+
+    try {
+      const startTime = Date.now();
+      const statusCode = await httpPostStream(url, body, guardedHandler, this.requestOptions(request));
+      const duration = Date.now() - startTime;
+
+      hilog.info(DOMAIN, TAG,
+        '[%{public}s] 大模型流式响应完成, 耗时: %{public}dms, statusCode: %{public}d, 分片数: %{public}d, [DONE]: %{public}s',
+        this.id, duration, statusCode, chunkCount, done ? 'true' : 'false');
+
+      if (!content) {
+        throw new LlmError('empty', this.id);
+      }
+
+      hilog.info(DOMAIN, TAG, '[%{public}s] 大模型返回内容长度: %{public}d字符', this.id, content.length);
+      return content;
+    } catch (error) {
+      const llmError = state.handlerError ?? this.normalizeError(error);
+      hilog.error(DOMAIN, TAG, '[%{public}s] 大模型流式调用失败: %{public}s, kind: %{public}s, 已接收: %{public}d字符',
+        this.id, llmError.message, llmError.kind, content.length);
+      throw llmError;
+    }
+  }
+
+  /**
+   * 构建请求体，子类可追加厂商参数
+   */
+  protected buildBody(request: LlmCompletionRequest, stream: boolean): Record<string, unknown> {
+    hilog.info(DOMAIN, TAG,
+      '[%{public}s] 大模型请求参数: model=%{public}s, messages=%{public}d, temperature=%{public}f, max_tokens=%{public}d, stream=%{public}s, timeout=%{public}dms',
+      this.id, this.model, request.messages.length, request.temperature, request.maxTokens,
+      stream ? 'true' : 'false', this.options.timeout);
+    return {
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream,
+    };
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * 按OpenAI错误码归类，子类可补充厂商特有的错误码
+   */
+  protected classifyError(payload: VendorErrorPayload): LlmErrorKind | undefined {
+    const code = `${payload.code ?? ''} ${payload.type ?? ''}`.toLowerCase();
+    if (/invalid_api_key|authentication|permission/.test(code)) {
+      return 'auth';
+    }
+    if (/insufficient_quota|billing/.test(code)) {
+      return 'quota';
+    }
+    if (/rate_limit/.test(code)) {
+      return 'rate_limit';
+    }
+    if (/context_length|exceed_context/.test(code)) {
+      return 'context_length';
+    }
+    if (/model_not_found/.test(code)) {
+      return 'model_not_found';
+    }
+    if (/content_filter|content_policy/.test(code)) {
+      return 'content_filter';
+    }
+    return undefined;
+  }
+
+  private payloadError(payload: VendorErrorPayload): LlmError {
+    return new LlmError(this.classifyError(payload) ?? 'unknown', this.id, payload.message ?? payload.code);
+  }
+
+  private normalizeError(error: unknown): LlmError {
+    return toLlmError(error, this.id, payload => this.classifyError(payload));
+  }
+
+  /**
+   * 校验密钥并返回请求地址
+   */
+  private prepareRequest(): string {
+    if (!this.isConfigured()) {
+      hilog.error(DOMAIN, TAG, '[%{public}s] 大模型密钥未配置', this.id);
+      throw new LlmError('auth', this.id, '大模型密钥未配置');
+    }
+    hilog.info(DOMAIN, TAG, '[%{public}s] 开始调用大模型API, model: %{public}s', this.id, this.model);
+    return `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  private requestOptions(request: LlmCompletionRequest): RequestOptions {
+    return {
+      headers: this.buildHeaders(),
+      timeout: this.options.timeout,
+      deadline: this.options.deadline,
+      retry: { retries: this.options.retries },
+      signal: request.signal,
+    };
+  }
+}
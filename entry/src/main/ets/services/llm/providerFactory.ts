@@ -0,0 +1,41 @@
+import { llmRequiresApiKey, type AppConfig } from '../../common/config';
+import type { SecretReader } from '../../common/secretStore';
+import type { LlmProvider } from './llmProvider';
+import { OpenAiCompatibleProvider, type OpenAiProviderOptions } from './openAiCompatibleProvider';
+import { DashScopeProvider, DASHSCOPE_BASE_URL, DASHSCOPE_DEFAULT_MODEL } from './dashScopeProvider';
+import { LocalLlmProvider, LOCAL_LLM_BASE_URLS, LOCAL_LLM_DEFAULT_MODELS } from './localLlmProvider';
+import { ScriptedLlmProvider } from './scriptedLlmProvider';
+
+/**
+ * 根据 AppConfig.llmProvider 创建大模型提供方，未配置时使用百炼
+ * @param secrets 读取大模型密钥（llmApiKey）
+ */
+export function createLlmProvider(config: AppConfig, secrets: SecretReader): LlmProvider {
+  const providerId = config.llmProvider ?? 'dashscope';
+  const options = (baseUrl: string, model: string): OpenAiProviderOptions => ({
+    baseUrl: config.llmBaseUrl || baseUrl,
+    model: config.llmModel || model,
+    apiKey: secrets.getSecret('llmApiKey'),
+    requiresApiKey: llmRequiresApiKey(config),
+    // 大模型API通常需要更长的超时时间，使用配置的超时时间或默认60秒
+    timeout: config.networkTimeout || 60000,
+    deadline: config.llmDeadline || 180000,
+    retries: config.httpRetries ?? 2,
+  });
+
+  switch (providerId) {
+    case 'openai':
+      return new OpenAiCompatibleProvider(options('https://api.openai.com/v1', 'gpt-4o-mini'));
+    case 'ollama':
+    case 'llamacpp':
+      return new LocalLlmProvider(
+        options(LOCAL_LLM_BASE_URLS[providerId], LOCAL_LLM_DEFAULT_MODELS[providerId]), providerId);
+    case 'scripted':
+      return new ScriptedLlmProvider(config.llmScriptedReplies ?? []);
+    case 'dashscope':
+    default:
+      // 开启联网功能，优先使用配置，默认开启
+      return new DashScopeProvider(options(DASHSCOPE_BASE_URL, DASHSCOPE_DEFAULT_MODEL),
+        config.llmEnableSearch !== false);
+  }
+}
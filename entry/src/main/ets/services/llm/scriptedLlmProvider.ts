@@ -0,0 +1,80 @@
+import {
+  LlmError,
+  type LlmChatMessage,
+  type LlmCompletionRequest,
+  type LlmProvider,
+  type LlmStreamHandler
+} from './llmProvider';
+
+/**
+ * 预设回复：依次返回，LlmError 条目会被抛出，用于模拟失败
+ * 也可传入函数，根据消息和调用序号生成回复
+ */
+export type LlmScript = Array<string | LlmError> | ((messages: LlmChatMessage[], callIndex: number) => string);
+
+/**
+ * 按预设内容回复的提供方，不发起网络请求，结果可重复，用于测试和离线演示
+ * 预设回复用完后重复最后一条
+ */
+export class ScriptedLlmProvider implements LlmProvider {
+  readonly id = 'scripted';
+  readonly model = 'scripted';
+  // 每次调用收到的消息，便于测试断言
+  readonly calls: LlmChatMessage[][] = [];
+  private script: LlmScript;
+  private chunkSize: number;
+
+  /**
+   * @param chunkSize 流式输出时每段的字符数
+   */
+  constructor(script: LlmScript, chunkSize: number = 16) {
+    this.script = script;
+    this.chunkSize = Math.max(1, chunkSize);
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    return this.next(request);
+  }
+
+  async completeStream(request: LlmCompletionRequest, onDelta: LlmStreamHandler): Promise<string> {
+    const reply = this.next(request);
+    let content = '';
+    for (let i = 0; i < reply.length; i += this.chunkSize) {
+      this.checkAborted(request);
+      const delta = reply.substring(i, i + this.chunkSize);
+      content += delta;
+      onDelta(delta, content);
+    }
+    return content;
+  }
+
+  private next(request: LlmCompletionRequest): string {
+    this.checkAborted(request);
+    const callIndex = this.calls.length;
+    this.calls.push(request.messages);
+
+    let reply: string | LlmError | undefined;
+    if (typeof this.script === 'function') {
+      reply = this.script(request.messages, callIndex);
+    } else if (this.script.length > 0) {
+      reply = this.script[Math.min(callIndex, this.script.length - 1)];
+    }
+    if (reply instanceof LlmError) {
+      throw reply;
+    }
+    if (!reply) {
+      throw new LlmError('empty', this.id);
+    }
+    return reply;
+  }
+
+  private checkAborted(request: LlmCompletionRequest): void {
+    if (request.signal?.aborted) {
+      throw new LlmError('aborted', this.id, request.signal.reason?.message);
+    }
+  }
+}
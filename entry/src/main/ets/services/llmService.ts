@@ -1,158 +1,230 @@
-import { httpPost, HttpError } from '../common/httpClient';
+import type { HttpAbortSignal } from '../common/httpClient';
 import type { AppConfig } from '../common/config';
-import type { PoiItem } from './types';
+import type { SecretReader } from '../common/secretStore';
+import type {
+  PoiItem,
+  PromptScenario,
+  PromptTemplateRef,
+  RecommendationOptions,
+  RecommendationRequest
+} from './types';
+import { buildItineraryInstruction } from './itineraryParser';
+import { getPromptTemplate, promptTemplateRef, renderPrompt, type PromptVariables } from './promptTemplates';
+import { interestNames } from './interests';
+import type { LlmChatMessage, LlmProvider, LlmStreamHandler } from './llm/llmProvider';
+import { createLlmProvider } from './llm/providerFactory';
 import { hilog } from '@kit.PerformanceAnalysisKit';
 
 const DOMAIN = 0x0000;
 const TAG = 'LlmService';
 
-export interface LlmChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+/**
+ * 单次回复的最大token数，多轮对话裁剪历史时需预留
+ */
+export const LLM_MAX_TOKENS = 2500;
+
+export type { LlmChatMessage, LlmStreamHandler } from './llm/llmProvider';
+
+// 推荐生成使用的采样温度
+const LLM_TEMPERATURE = 0.7;
+
+const DEFAULT_SYSTEM_PROMPT =
+  '你是一个本地生活与旅行路线推荐助手，请结合给定的POI列表给出简洁、可执行的吃喝玩乐方案，并给出推荐理由与行程顺序。';
+
+function isMultiCity(request: RecommendationRequest): boolean {
+  return (request.stops?.length ?? 0) > 1;
 }
 
-export interface LlmChatRequest {
-  model: string;
-  messages: LlmChatMessage[];
-  temperature?: number;
-  max_tokens?: number;
-  enable_search?: boolean;
+/**
+ * 首轮提示词的场景和补充信息
+ */
+export interface PromptInput {
+  scenario?: PromptScenario; // 默认为城市一日游
+  context?: string; // 行程路线、城际交通、路线耗时、预算约束等
+  weather?: string; // 实况天气与逐日预报
 }
 
-export interface LlmChatResponse {
-  id?: string;
-  object?: string;
-  created?: number;
-  model?: string;
-  choices?: Array<{
-    index?: number;
-    message?: {
-      role?: string;
-      content?: string;
-    };
-    finish_reason?: string;
-  }>;
-  error?: {
-    message: string;
-    type?: string;
-  };
+/**
+ * 构建好的首轮对话消息及使用的模板
+ */
+export interface LlmPrompt {
+  messages: LlmChatMessage[];
+  template: PromptTemplateRef;
 }
 
 /**
- * 大模型服务（兼容OpenAI格式）
+ * 大模型服务：构建提示词，通过 LlmProvider 调用具体的模型服务
  */
 export class LlmService {
   private config: AppConfig;
+  private provider: LlmProvider;
 
-  constructor(config: AppConfig) {
+  /**
+   * @param secrets 读取大模型密钥
+   * @param provider 可选，默认根据 config.llmProvider 创建
+   */
+  constructor(config: AppConfig, secrets: SecretReader, provider?: LlmProvider) {
     this.config = config;
+    this.provider = provider ?? createLlmProvider(config, secrets);
   }
 
   /**
-   * 调用大模型生成推荐内容
+   * 当前提供方是否具备调用条件
    */
-  async generateRecommendation(
-    userQuery: string,
-    pois: PoiItem[],
-    context?: string
-  ): Promise<string> {
-    if (!this.config.llmApiKey) {
-      hilog.error(DOMAIN, TAG, '大模型密钥未配置');
-      throw new Error('大模型密钥未配置');
-    }
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  /**
+   * 按场景模板构建首轮对话消息：配置的系统提示词 + 场景说明，用户消息注入结构化出行需求、上下文、天气与POI列表
+   */
+  buildPrompt(request: RecommendationRequest, pois: PoiItem[], input: PromptInput = {}): LlmPrompt {
+    const template = getPromptTemplate(input.scenario ?? 'city_day');
+    const systemPrompt = `${this.config.llmSystemPrompt || DEFAULT_SYSTEM_PROMPT}\n${template.system}`;
+
+    hilog.info(DOMAIN, TAG, '构建大模型请求, query: %{public}s, 模板: %{public}s v%{public}d, POI数量: %{public}d',
+      request.query, template.id, template.version, pois.length);
+
+    // 表单请求（带目的地）只使用结构化需求，自由输入的查询保留用户原话
+    const multiCity = isMultiCity(request);
+    const variables: PromptVariables = {
+      query: request.destination ? '' : request.query,
+      requirements: this.formatRequirements(request),
+      context: input.context ?? '',
+      weather: input.weather ?? '',
+      pois: this.formatPoiList(pois, 0, multiCity),
+      days: request.travelDays ? `${request.travelDays}` : '',
+      instruction: buildItineraryInstruction(request.options, multiCity),
+    };
+    const userContent = renderPrompt(template.user, variables);
+
+    hilog.debug(DOMAIN, TAG, '大模型请求消息长度: system=%{public}d, user=%{public}d',
+      systemPrompt.length, userContent.length);
 
-    const baseUrl = this.config.llmBaseUrl || 'https://dashscope.aliyuncs.com/compatible-mode/v1';
-    const model = this.config.llmModel || 'qwen-plus';
-    const url = `${baseUrl}/chat/completions`;
+    return {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userContent },
+      ],
+      template: promptTemplateRef(template),
+    };
+  }
+
+  /**
+   * 构建多轮对话中的调整指令消息
+   * @param newPois 本轮新增的POI（序号接续已有列表）
+   * @param startIndex 新增POI在完整列表中的起始下标
+   * @param multiCity 是否为多目的地行程
+   */
+  buildRefineMessage(
+    instruction: string,
+    newPois: PoiItem[],
+    startIndex: number,
+    options?: RecommendationOptions,
+    multiCity: boolean = false
+  ): LlmChatMessage {
+    const content = `用户希望调整当前行程：${instruction}\n\n` +
+      (newPois.length > 0
+        ? `新增可选的POI（序号接续之前的列表）：\n${this.formatPoiList(newPois, startIndex, multiCity)}\n\n` : '') +
+      `请在上一版行程的基础上按要求修改，未提及的部分尽量保持不变。\n\n` +
+      buildItineraryInstruction(options, multiCity);
+    return { role: 'user', content };
+  }
+
+  /**
+   * 发送完整的对话消息并返回大模型回复
+   * @param signal 可选，取消信号
+   * @throws LlmError
+   */
+  async complete(messages: LlmChatMessage[], signal?: HttpAbortSignal): Promise<string> {
+    return this.provider.complete({ messages, temperature: LLM_TEMPERATURE, maxTokens: LLM_MAX_TOKENS, signal });
+  }
 
-    hilog.info(DOMAIN, TAG, '开始调用大模型API, model: %{public}s, userQuery: %{public}s, POI数量: %{public}d',
-      model, userQuery, pois.length);
+  /**
+   * 以流式方式发送对话消息，每收到一段文本即回调 onDelta
+   * @param signal 可选，取消信号
+   * @returns 完整的返回内容
+   * @throws LlmError
+   */
+  async completeStream(
+    messages: LlmChatMessage[],
+    onDelta: LlmStreamHandler,
+    signal?: HttpAbortSignal
+  ): Promise<string> {
+    return this.provider.completeStream(
+      { messages, temperature: LLM_TEMPERATURE, maxTokens: LLM_MAX_TOKENS, signal }, onDelta);
+  }
 
-    const systemPrompt = this.config.llmSystemPrompt ||
-      '你是一个本地生活与旅行路线推荐助手，请结合给定的POI列表给出简洁、可执行的吃喝玩乐方案，并给出推荐理由与行程顺序。';
+  /**
+   * 将请求中的结构化字段整理为需求列表
+   */
+  private formatRequirements(request: RecommendationRequest): string {
+    const lines: string[] = [];
+    if (isMultiCity(request)) {
+      let day = 1;
+      const route = (request.stops ?? []).map(stop => {
+        const days = stop.days ?? 1;
+        const range = days > 1 ? `第${day}-${day + days - 1}天` : `第${day}天`;
+        day += days;
+        return `${stop.destination}（${range}）`;
+      });
+      lines.push(`- 行程路线：${route.join(' → ')}`);
+    } else if (request.destination) {
+      lines.push(`- 目的地：${request.destination}`);
+    }
+    if (request.departure) {
+      lines.push(`- 出发地：${request.departure}`);
+    }
+    if (request.dateRange) {
+      // 使用解析后的具体日期，避免"下周末"、"国庆"等说法被大模型按其他年份理解
+      const { start, end, holiday } = request.dateRange;
+      lines.push(`- 出行日期：${end ? `${start} 至 ${end}` : start}${holiday ? `（${holiday}假期）` : ''}`);
+    } else if (request.travelDate) {
+      lines.push(`- 出行日期：${request.travelDate}`);
+    }
+    if (request.travelDays) {
+      lines.push(`- 旅行天数：${request.travelDays}天`);
+    }
+    if (request.partySize || request.companions) {
+      const size = request.partySize ? `${request.partySize}人` : '';
+      const relation = request.companions ? `（${request.companions}）` : '';
+      lines.push(`- 同行：${size}${relation}`);
+    }
+    if (request.budget && (request.budget.min !== undefined || request.budget.max !== undefined)) {
+      const { min, max } = request.budget;
+      const text = min !== undefined && max !== undefined ? `${min}-${max}元`
+        : min !== undefined ? `${min}元以上` : `${max}元以内`;
+      lines.push(`- ${request.budget.perPerson ? '人均预算' : '总预算'}：${text}`);
+    }
+    if (request.interests && request.interests.length > 0) {
+      lines.push(`- 兴趣偏好：${interestNames(request.interests).join('、')}`);
+    }
+    if (request.location) {
+      lines.push(`- 当前位置：${request.locationAddress ?? request.location}`);
+    }
+    return lines.join('\n');
+  }
 
-    // 构建POI信息文本
-    const poiText = pois.map((poi, index) => {
-      let text = `${index + 1}. ${poi.name}`;
+  /**
+   * 构建POI信息文本，序号从 startIndex + 1 开始
+   * @param showCity 是否标注所在城市（多目的地行程）
+   */
+  private formatPoiList(pois: PoiItem[], startIndex: number, showCity: boolean = false): string {
+    return pois.map((poi, index) => {
+      let text = `${startIndex + index + 1}. ${showCity && poi.city ? `[${poi.city}] ` : ''}${poi.name}`;
       if (poi.address) {
         text += `（${poi.address}）`;
       }
+      if (poi.setting) {
+        text += ` - ${poi.setting === 'indoor' ? '室内' : '户外'}`;
+      }
+      if (poi.rating !== undefined) {
+        text += ` - 评分${poi.rating}`;
+      }
       if (poi.distance !== undefined) {
         text += ` - 距离${poi.distance}米`;
       }
       return text;
     }).join('\n');
-
-    const userContent = `用户问题：${userQuery}\n\n` +
-      (context ? `上下文：${context}\n\n` : '') +
-      `可选的POI列表：\n${poiText}\n\n` +
-      `请根据用户问题，从上述POI中选择合适的推荐，并给出推荐理由和行程安排。如果用户问题涉及路线规划，请提供时间安排。`;
-
-    const messages: LlmChatMessage[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userContent },
-    ];
-
-    hilog.debug(DOMAIN, TAG, '大模型请求消息长度: system=%{public}d, user=%{public}d',
-      systemPrompt.length, userContent.length);
-
-    try {
-      // 大模型API通常需要更长的超时时间，使用配置的超时时间或默认60秒
-      const llmTimeout = this.config.networkTimeout || 60000;
-      
-      // 开启联网功能，优先使用配置，默认开启
-      const enableSearch = this.config.llmEnableSearch !== false; // 默认true，除非明确设置为false
-      
-      const requestBody = {
-        model: model,
-        messages: messages,
-        temperature: 0.7,
-        max_tokens: 1500, // 减少token数量以加快响应
-        enable_search: enableSearch, // 开启联网功能
-      } as LlmChatRequest;
-
-      hilog.info(DOMAIN, TAG,
-        `大模型请求参数: model=%{public}s, temperature=%{public}f, max_tokens=%{public}d, enable_search=%{public}s（网页搜索${enableSearch ? '已开启' : '未开启'}）, timeout=%{public}dms`,
-        model, 0.7, 1500, enableSearch ? 'true' : 'false', llmTimeout);
-
-      const startTime = Date.now();
-      const response = await httpPost<LlmChatResponse>(
-        url,
-        requestBody,
-        {
-          headers: {
-            'Authorization': `Bearer ${this.config.llmApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: llmTimeout,
-        }
-      );
-      const duration = Date.now() - startTime;
-
-      hilog.info(DOMAIN, TAG, '大模型API响应成功, 耗时: %{public}dms, statusCode: %{public}d',
-        duration, response.statusCode);
-
-      if (response.data.error) {
-        hilog.error(DOMAIN, TAG, '大模型API返回错误: %{public}s, type: %{public}s',
-          response.data.error.message, response.data.error.type || 'unknown');
-        throw new Error(`大模型API错误: ${response.data.error.message}`);
-      }
-
-      const content = response.data.choices?.[0]?.message?.content;
-      if (!content) {
-        hilog.error(DOMAIN, TAG, '大模型返回内容为空');
-        throw new Error('大模型返回内容为空');
-      }
-
-      hilog.info(DOMAIN, TAG, '大模型返回内容长度: %{public}d字符', content.length);
-      hilog.debug(DOMAIN, TAG, '大模型返回内容预览: %{public}s', content.substring(0, 100));
-      return content;
-    } catch (error) {
-      const httpErr = error as HttpError;
-      hilog.error(DOMAIN, TAG, '大模型调用失败: %{public}s, code: %{public}s',
-        httpErr.message || '网络错误', String(httpErr.code || 'unknown'));
-      throw new Error(`大模型调用失败: ${httpErr.message || '网络错误'}`);
-    }
   }
 }
-
@@ -0,0 +1,120 @@
+import type { PromptScenario, PromptTemplateRef } from './types';
+
+/**
+ * 提示词模板：system 为场景说明（附加在配置的系统提示词之后），user 为首轮用户消息
+ * 模板中 {{name}} 替换为变量值，{{#name}}...{{/name}} 仅在变量非空时保留
+ * 修改已发布模板的内容时新增版本，不要改动旧版本，便于对比不同版本的效果
+ */
+export interface PromptTemplate {
+  id: PromptScenario;
+  version: number;
+  label: string;
+  system: string;
+  user: string;
+}
+
+/**
+ * 模板变量，均为已格式化的文本，空字符串表示没有该项
+ */
+export interface PromptVariables {
+  query: string; // 用户原话（表单请求带目的地时为空）
+  requirements: string; // 结构化出行需求
+  context: string; // 行程路线、城际交通、路线耗时、预算约束等
+  weather: string; // 实况天气与逐日预报
+  pois: string; // 编号的POI列表
+  days: string; // 旅行天数
+  instruction: string; // JSON行程格式说明
+}
+
+const HEADER = '{{#query}}用户问题：{{query}}\n\n{{/query}}' +
+  '{{#requirements}}出行需求：\n{{requirements}}\n\n{{/requirements}}' +
+  '{{#context}}上下文：{{context}}\n\n{{/context}}' +
+  '{{#weather}}天气：{{weather}}\n\n{{/weather}}' +
+  '可选的POI列表：\n{{pois}}\n\n';
+
+const FOOTER = '\n\n{{instruction}}';
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'local_food',
+    version: 1,
+    label: '附近快速推荐',
+    system: '用户在找附近马上可以去的地方（多为吃饭、喝咖啡），回答要简短直接。',
+    user: HEADER +
+      '请从上述POI中挑选3-5个最合适的地点安排在同一天内，优先距离近、评分高、符合当前时段（正餐、下午茶、夜宵）的选择，' +
+      '每个地点给出一句推荐理由。' + FOOTER,
+  },
+  {
+    id: 'city_day',
+    version: 1,
+    label: '城市一日游',
+    system: '这是一天的城市游览，路线要顺路、不赶时间。',
+    user: HEADER +
+      '请根据出行需求，从上述POI中选择合适的推荐，并给出推荐理由和行程安排。' +
+      '{{#days}}请按{{days}}天安排每日行程。{{/days}}上午、下午、晚上各有安排，如果涉及路线规划，请提供时间安排。' + FOOTER,
+  },
+  {
+    id: 'multi_day',
+    version: 1,
+    label: '多日行程',
+    system: '这是多日旅行，每天主题不同，整体节奏张弛有度。',
+    user: HEADER +
+      '请根据出行需求，从上述POI中选择合适的推荐，并给出推荐理由和行程安排。' +
+      '{{#days}}请按{{days}}天安排每日行程，{{/days}}同一天的地点尽量集中在同一区域，避免来回折返，' +
+      '首日和末日考虑抵达与返程时间，中间安排一天相对轻松的行程。' + FOOTER,
+  },
+  {
+    id: 'family',
+    version: 1,
+    label: '亲子/家庭出游',
+    system: '同行有儿童或老人，安全、舒适优先于景点数量。',
+    user: HEADER +
+      '请根据出行需求，从上述POI中选择亲子友好的推荐，并给出推荐理由和行程安排。' +
+      '{{#days}}请按{{days}}天安排每日行程，{{/days}}每天不超过3个主要地点，中午留出休息时间，' +
+      '优先选择步行少、有休息和卫生设施的地点，餐饮选择适合孩子和老人的口味，在tips中给出带娃和老人出行的注意事项。' + FOOTER,
+  },
+  {
+    id: 'outdoor',
+    version: 1,
+    label: '户外/徒步',
+    system: '行程以户外活动为主，注意天气、体力和安全。',
+    user: HEADER +
+      '请根据出行需求，从上述POI中选择合适的户外地点，并给出推荐理由和行程安排。' +
+      '{{#days}}请按{{days}}天安排每日行程，{{/days}}把徒步、登山等户外地点安排在天气最好的时段，' +
+      '早出发、日落前结束，合理分配体力，在tips中给出装备和安全提醒，遇雨雪时提供室内备选。' + FOOTER,
+  },
+  {
+    id: 'budget',
+    version: 1,
+    label: '经济出行',
+    system: '用户预算有限，在保证体验的前提下尽量省钱。',
+    user: HEADER +
+      '请根据出行需求，从上述POI中选择免费或低价的景点和平价美食，并给出推荐理由和行程安排。' +
+      '{{#days}}请按{{days}}天安排每日行程，{{/days}}优先公共交通，避免高消费项目，' +
+      '在推荐理由中说明大致花费，在tips中给出省钱建议。' + FOOTER,
+  },
+];
+
+/**
+ * 按ID获取模板，未指定版本时返回最新版本，找不到指定版本时同样返回最新版本
+ */
+export function getPromptTemplate(id: PromptScenario, version?: number): PromptTemplate {
+  const candidates = PROMPT_TEMPLATES.filter(template => template.id === id);
+  const pinned = version !== undefined ? candidates.find(template => template.version === version) : undefined;
+  return pinned ?? candidates.reduce((latest, template) => template.version > latest.version ? template : latest);
+}
+
+export function promptTemplateRef(template: PromptTemplate): PromptTemplateRef {
+  return { id: template.id, version: template.version };
+}
+
+/**
+ * 渲染模板：先处理条件段落，再替换变量
+ */
+export function renderPrompt(text: string, variables: PromptVariables): string {
+  const values = variables as unknown as Record<string, string>;
+  return text
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_match: string, name: string, body: string) =>
+      values[name] ? body : '')
+    .replace(/\{\{(\w+)\}\}/g, (_match: string, name: string) => values[name] ?? '');
+}
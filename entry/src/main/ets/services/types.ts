@@ -1,14 +1,25 @@
 export interface PoiItem {
+  id?: string; // 高德POI ID
   name: string;
   address?: string;
   location?: string;
   city?: string;
   distance?: number;
-  score?: number;
+  rating?: number; // 评分（0-5）
+  score?: number; // 排序得分（0-1），见 poiRanking.ts
   tel?: string;
   image?: string; // POI图片URL
+  type?: string; // 高德POI分类名称，如"风景名胜;公园广场;公园"
+  typecode?: string; // 高德POI分类编码，如 110000 风景名胜、050000 餐饮服务
+  cost?: number; // 人均消费或门票价格（元）
+  setting?: PoiSetting; // 室内或户外，见 weatherPlan.ts
 }
 
+/**
+ * 地点类型：室内（博物馆、商场、餐厅等）或户外（公园、景区、街区等）
+ */
+export type PoiSetting = 'indoor' | 'outdoor';
+
 export interface WeatherInfo {
   city: string;
   adcode?: string;
@@ -33,20 +44,293 @@ export interface WeatherForecast {
   nightpower?: string; // 夜间风力
 }
 
+/**
+ * 户外活动的天气适宜程度，没有对应日期的预报时为 unknown
+ */
+export type WeatherSuitability = 'good' | 'fair' | 'poor' | 'unknown';
+
+/**
+ * 行程中某一天的天气（按出行日期匹配的预报）
+ */
+export interface DayWeather {
+  day: number; // 第几天（从1开始）
+  date?: string; // 日期（YYYY-MM-DD），出行日期未知时为空
+  city: string;
+  forecast?: WeatherForecast; // 超出预报范围或出行日期未知时为空
+  suitability: WeatherSuitability;
+}
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface ItinerarySlot {
+  time: string; // 开始时间，如 08:30
+  endTime?: string; // 结束时间
+  poiIndex?: number; // 对应POI列表的下标（从0开始），非POI列表中的地点为空
+  name: string; // 地点名称
+  activity?: string; // 活动内容
+  reason?: string; // 推荐理由
+  address?: string;
+  location?: string; // 坐标（来自对应POI）
+  transport?: string; // 从上一站前往的交通方式与耗时（开启路线规划时提供）
+  mapUrl?: string; // 高德地图链接（开启地图链接时提供）
+  setting?: PoiSetting; // 室内或户外（来自对应POI）
+  rainyAlternative?: RainyAlternative; // 户外地点的雨天备选（开启天气查询时提供）
+  grounding?: GroundingStatus;
+}
+
+/**
+ * 行程中的地点是否真实存在：verified 对应POI列表中的地点，resolved 不在列表中但已通过高德搜索在目的地城市找到，
+ * unverified 未能找到（可能是大模型编造或名称有误）
+ */
+export type GroundingStatus = 'verified' | 'resolved' | 'unverified';
+
+/**
+ * 户外地点遇雨时的室内备选
+ */
+export interface RainyAlternative {
+  name: string;
+  poiIndex?: number; // 对应POI列表的下标（从0开始）
+  activity?: string;
+  grounding?: GroundingStatus;
+}
+
+/**
+ * 当日穿搭建议
+ */
+export interface OutfitAdvice {
+  summary: string; // 总体建议，如"早晚温差大，外套随身"
+  clothing: string[]; // 建议衣物，如 ["冲锋衣", "长裤", "防滑徒步鞋"]
+  accessories: string[]; // 随身物品，如 ["雨伞", "防晒霜"]
+}
+
+export interface ItineraryMeal {
+  type: MealType;
+  name: string; // 餐厅或美食名称
+  poiIndex?: number; // 对应POI列表的下标（从0开始）
+  note?: string;
+  grounding?: GroundingStatus;
+}
+
+export type TravelMode = 'walking' | 'driving' | 'transit' | 'bicycling';
+
+export interface RouteLeg {
+  mode: TravelMode;
+  origin: string; // 起点坐标
+  destination: string; // 终点坐标
+  fromName?: string;
+  toName?: string;
+  distance: number; // 距离（米）
+  duration: number; // 耗时（秒）
+  cost?: number; // 费用（元），公交为票价，驾车为打车费用估算
+  steps: string[]; // 路线步骤摘要
+}
+
+export interface ItineraryDay {
+  day: number; // 第几天（从1开始）
+  city?: string; // 当日所在城市（多目的地行程时提供）
+  transfer?: string; // 换城当天的城际交通安排（多目的地行程时提供）
+  theme?: string; // 当日主题
+  slots: ItinerarySlot[];
+  meals: ItineraryMeal[];
+  tips: string[];
+  legs?: RouteLeg[]; // 相邻地点之间的实际路线（开启路线规划时提供）
+  outfit?: OutfitAdvice; // 穿搭建议（开启天气查询时提供）
+}
+
+export interface BudgetItem {
+  category: string; // 类别，如交通、住宿、餐饮、门票
+  amount: number; // 金额（元）
+  note?: string;
+}
+
+export interface ItineraryBudget {
+  items: BudgetItem[];
+  total: number; // 总计（元）
+}
+
+export interface Itinerary {
+  title: string;
+  overview?: string; // 行程概述
+  days: ItineraryDay[];
+  tips: string[]; // 整体出行建议
+  budget?: ItineraryBudget; // 预算明细（开启生成预算时提供）
+}
+
+/**
+ * 多目的地行程中的一站
+ */
+export interface TripStop {
+  destination: string; // 城市或景区名
+  days?: number; // 停留天数（含抵达当天），未填写时按总天数平均分配
+}
+
+/**
+ * 多目的地行程中一站的解析结果
+ */
+export interface TripStopResult {
+  destination: string;
+  city: string; // POI搜索和天气查询使用的城市（景区为所在城市）
+  startDay: number; // 抵达当天是第几天（从1开始）
+  days: number;
+  weather?: WeatherInfo;
+  weatherForecast?: WeatherForecast[];
+}
+
+/**
+ * 相邻两站之间的城际交通
+ */
+export interface IntercityTransfer {
+  day: number; // 换城当天是第几天
+  from: string;
+  to: string;
+  distance?: number; // 两城之间的直线距离（米）
+  leg?: RouteLeg; // 高德规划的城际路线（公交含铁路，或驾车）
+}
+
 export interface RecommendationResult {
   summary: string;
   items: PoiItem[];
   fromMock?: boolean;
   weather?: WeatherInfo; // 实况天气
   weatherForecast?: WeatherForecast[]; // 天气预报
+  dayWeather?: DayWeather[]; // 按出行日期逐日匹配的天气（多目的地行程为当天所在城市）
+  itinerary?: Itinerary; // 结构化行程（大模型返回合法JSON时提供）
+  sessionId?: string; // 对话会话ID，用于多轮调整行程
+  budgetEstimate?: BudgetEstimate; // 预算估算（开启生成预算或填写了预算范围时提供）
+  stops?: TripStopResult[]; // 多目的地行程的各站信息（含各城市天气）
+  transfers?: IntercityTransfer[]; // 多目的地行程的城际交通
+  nearbyOrigin?: string; // 附近推荐时当前位置的可读地址，结果按距离排序
+  traceId?: string; // 本次调用的追踪ID，可在诊断页查看各步骤耗时与错误
+  error?: RecommendationIssue; // 未能生成推荐的原因，此时 summary 为简短提示
+  warnings?: RecommendationIssue[]; // 已生成推荐但部分步骤失败（如天气、大模型），结果可能不完整
+  promptTemplate?: PromptTemplateRef; // 生成行程使用的提示词模板，未调用大模型时为空
+}
+
+/**
+ * 提示词模板对应的出行场景，见 promptTemplates.ts
+ */
+export type PromptScenario =
+  | 'local_food' // 附近快速推荐，如"今天吃什么"
+  | 'city_day' // 城市一日游
+  | 'multi_day' // 多日或多目的地行程
+  | 'family' // 带儿童或老人出游
+  | 'outdoor' // 徒步、登山等户外活动
+  | 'budget'; // 预算有限的经济出行
+
+export interface PromptTemplateRef {
+  id: PromptScenario;
+  version: number;
+}
+
+export type RecommendationErrorKind =
+  | 'network' // 无法连接服务
+  | 'timeout'
+  | 'auth' // 密钥无效或无权限
+  | 'quota' // 调用量或账户额度用尽
+  | 'rate_limit' // 请求过于频繁
+  | 'invalid_params' // 上游服务认为请求参数有误（含超出上下文长度、模型不存在）
+  | 'empty_result' // 请求成功但没有结果
+  | 'content_filter' // 内容未通过大模型安全审核
+  | 'unverified_place' // 行程中的地点未能在目的地城市找到
+  | 'server' // 上游服务异常
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * 界面可以提供的处理方式：重试、修改密钥、修改查询条件
+ */
+export type RecommendationErrorAction = 'retry' | 'fix_key' | 'change_query' | 'none';
+
+/**
+ * 结构化的错误/警告，message 可直接展示给用户
+ */
+export interface RecommendationIssue {
+  kind: RecommendationErrorKind;
+  source: 'amap' | 'llm' | 'app';
+  message: string;
+  action: RecommendationErrorAction;
+  code?: string; // 上游错误码，如高德 infocode、HTTP状态码
+  detail?: string; // 上游返回的原始错误信息
+}
+
+/**
+ * 高德POI搜索条件：关键词与分类编码至少填写一个，多个值用"|"分隔
+ */
+export interface PoiQuery {
+  keywords?: string;
+  types?: string; // 高德POI分类编码，如 050000 餐饮服务、110101 公园
+  cityLimit?: boolean; // 仅返回目标城市内的结果（按分类搜索时总是限定）
+}
+
+export type InterestId =
+  'food' | 'nature' | 'citywalk' | 'family' | 'adventure' | 'drive' | 'hiking' | 'climbing' | 'shopping';
+
+export interface BudgetRange {
+  min?: number; // 最低预算（元）
+  max?: number; // 最高预算（元）
+  perPerson?: boolean; // min/max 为人均预算，如"人均预算500"，未设置时为全体总预算
+}
+
+export type BudgetCategory = 'lodging' | 'meals' | 'tickets' | 'transport' | 'other';
+
+export interface BudgetLine {
+  category: BudgetCategory;
+  label: string; // 明细说明，如"故宫博物院门票"
+  amount: number; // 全部同行人的合计金额（元）
+}
+
+export interface DayBudget {
+  day: number; // 第几天（从1开始），0 表示往返大交通等不属于某天的费用
+  lines: BudgetLine[];
+  total: number;
+}
+
+export type BudgetStatus = 'within' | 'over' | 'under' | 'unknown';
+
+export interface BudgetEstimate {
+  partySize: number;
+  days: DayBudget[];
+  byCategory: Record<BudgetCategory, number>;
+  total: number;
+  perPerson: number;
+  range?: BudgetRange; // 用户填写的预算范围
+  status: BudgetStatus; // 与用户预算范围的比较结果
+  message?: string; // 超出或低于预算时的提示
+  intercityDistance?: number; // 出发地与目的地的直线距离（米），用于估算往返大交通
+  returnDistance?: number; // 多目的地行程从最后一站返回出发地的直线距离（米）
+}
+
+export interface RecommendationOptions {
+  generateBudget?: boolean; // 生成预算明细，默认false
+  generateMapLink?: boolean; // 为行程地点生成地图链接，默认false
+  queryWeather?: boolean; // 查询目的地天气，默认true
+  routePlanning?: boolean; // 规划地点间的交通路线，默认false
+}
+
+/**
+ * 出行日期范围（本地日期，YYYY-MM-DD）
+ */
+export interface DateRange {
+  start: string;
+  end?: string;
+  holiday?: string; // 按节假日放假安排得到的范围，如"国庆节"
 }
 
 export interface RecommendationRequest {
   query: string;
   city?: string;
-  location?: string;
-  travelDate?: string;
+  location?: string; // 当前位置坐标（高德坐标系），格式为"经度,纬度"
+  locationAddress?: string; // 当前位置的可读地址，未提供时由逆地理编码得到
+  travelDate?: string; // 用户填写的出行日期原文
+  dateRange?: DateRange; // 由 travelDate 解析出的日期范围
   destination?: string;
+  stops?: TripStop[]; // 多目的地行程（按游览顺序），两站及以上时生效，destination 为第一站
   departure?: string;
+  travelDays?: number; // 旅行天数
+  partySize?: number; // 同行人数
+  companions?: string; // 同行关系描述，如"情侣/朋友"
+  budget?: BudgetRange;
+  interests?: InterestId[];
+  options?: RecommendationOptions;
 }
 
@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+/**
+ * 本地替身服务：按录制文件回放高德地图与大模型接口
+ *
+ * 用法：node tools/fixture-server.js [录制文件目录] [端口]
+ *   默认目录 entry/src/main/resources/rawfile/fixtures，默认端口 8787
+ *
+ * 将配置中的 amapBaseUrl 指向 http://<主机IP>:8787/v3，
+ * llmBaseUrl 指向 http://<主机IP>:8787/compatible-mode/v1（与录制时的路径保持一致）即可离线运行。
+ * 匹配规则与 entry/src/main/ets/common/httpFixtures.ts 中的 fixtureKey 相同，修改时需同步。
+ */
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+const SECRET_PARAMS = ['key', 'apikey', 'api_key', 'token', 'access_token', 'sig'];
+
+const fixtureDir = path.resolve(process.argv[2] || 'entry/src/main/resources/rawfile/fixtures');
+const port = Number(process.argv[3] || 8787);
+
+function hashText(text) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+// 大模型请求中随日期、天气变化的内容，匹配前替换为占位符
+const VOLATILE_PATTERNS = [
+  { pattern: /^天气：.*$/gm, replacement: '天气：*' },
+  { pattern: /\d{4}-\d{2}-\d{2}/g, replacement: '*' },
+];
+
+function normalizeRequestBody(body) {
+  let parsed = null;
+  try {
+    parsed = JSON.parse(body);
+  } catch (error) {
+    return body;
+  }
+  if (!parsed || !Array.isArray(parsed.messages)) {
+    return body;
+  }
+  const messages = parsed.messages.map(message => {
+    const content = VOLATILE_PATTERNS.reduce((text, item) => text.replace(item.pattern, item.replacement),
+      message.content || '');
+    return `${message.role || ''}:${content}`;
+  });
+  return [parsed.model || '', parsed.stream ? 'stream' : '', ...messages].join('\n');
+}
+
+function fixtureKey(method, url, body) {
+  const parsed = new URL(url, 'http://localhost');
+  const urlPath = parsed.pathname.replace(/\/+$/, '') || '/';
+  if (method === 'GET') {
+    const names = Array.from(new Set(parsed.searchParams.keys()))
+      .filter(name => !SECRET_PARAMS.includes(name.toLowerCase()))
+      .sort();
+    const query = names
+      .map(name => [name, parsed.searchParams.get(name)])
+      .filter(([, value]) => value !== null && value !== '')
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+    return `GET ${urlPath}?${query}`;
+  }
+  return `POST ${urlPath}#${hashText(normalizeRequestBody(body))}`;
+}
+
+function loadFixtures() {
+  const fixtures = new Map();
+  if (!fs.existsSync(fixtureDir)) {
+    console.warn(`录制文件目录不存在: ${fixtureDir}`);
+    return fixtures;
+  }
+  for (const file of fs.readdirSync(fixtureDir).filter(name => name.endsWith('.json'))) {
+    const cassette = JSON.parse(fs.readFileSync(path.join(fixtureDir, file), 'utf8'));
+    for (const fixture of cassette.fixtures || []) {
+      fixtures.set(fixture.key, fixture);
+    }
+    console.log(`已加载 ${file}: ${(cassette.fixtures || []).length}条`);
+  }
+  return fixtures;
+}
+
+/**
+ * 流式响应按SSE事件分段发送，模拟逐段输出
+ */
+function sendStream(res, fixture) {
+  res.writeHead(fixture.status, { 'Content-Type': 'text/event-stream; charset=utf-8' });
+  const events = fixture.body.split(/(?<=\n\n)/);
+  let index = 0;
+  const timer = setInterval(() => {
+    if (index >= events.length) {
+      clearInterval(timer);
+      res.end();
+      return;
+    }
+    res.write(events[index++]);
+  }, 20);
+  res.on('close', () => clearInterval(timer));
+}
+
+const fixtures = loadFixtures();
+
+const server = http.createServer((req, res) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const key = fixtureKey(req.method, req.url, body);
+    const fixture = fixtures.get(key);
+    if (!fixture) {
+      console.warn(`未命中: ${key}`);
+      res.writeHead(404, { 'Content-Type': 'application/json; charset=utf-8' });
+      res.end(JSON.stringify({ error: { message: `回放数据中没有匹配的请求: ${key}`, type: 'fixture_not_found' } }));
+      return;
+    }
+    console.log(`命中: ${key}`);
+    if (fixture.stream && fixture.status >= 200 && fixture.status < 300) {
+      sendStream(res, fixture);
+      return;
+    }
+    res.writeHead(fixture.status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(fixture.body);
+  });
+});
+
+server.listen(port, '0.0.0.0', () => {
+  console.log(`替身服务已启动: http://0.0.0.0:${port}，共${fixtures.size}条录制数据`);
+});